@@ -0,0 +1,516 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import YAML from "yaml";
+import { constants } from "./constants";
+import { logger } from "../ui/logger";
+import { tokenUtils } from "../utils/tokens";
+import { truncationUtils } from "../utils/truncation";
+import { writerUtils } from "../utils/writers";
+import {
+  ProviderSettings,
+  SettingSource,
+  ZhankaiSettings,
+} from "../utils/types";
+
+/**
+ * Settings as read from a config file, before validation
+ */
+type RawSettings = Record<string, unknown>;
+
+/**
+ * Validates a single setting, returning an error message if invalid
+ */
+type SettingValidator = (value: unknown) => string | null;
+
+const isPositiveInteger: SettingValidator = (value) =>
+  typeof value === "number" && Number.isInteger(value) && value > 0
+    ? null
+    : "must be a positive integer";
+
+const isString: SettingValidator = (value) =>
+  typeof value === "string" && value.trim() !== ""
+    ? null
+    : "must be a non-empty string";
+
+const isUrl: SettingValidator = (value) => {
+  if (typeof value !== "string") return "must be a URL";
+  try {
+    new URL(value);
+    return null;
+  } catch {
+    return `must be a URL, got "${value}"`;
+  }
+};
+
+const BUDGET_PRIORITIES: string[] = tokenUtils.listPriorities();
+
+const isBoolean: SettingValidator = (value) =>
+  typeof value === "boolean" ? null : "must be true or false";
+
+const isStringList: SettingValidator = (value) =>
+  Array.isArray(value) && value.every((item) => typeof item === "string")
+    ? null
+    : "must be a list of strings";
+
+/**
+ * Sets a setting to its value in a layer of settings, if given
+ */
+const assignSetting = <K extends keyof ZhankaiSettings>(
+  settings: ZhankaiSettings,
+  layer: Partial<ZhankaiSettings>,
+  key: K
+): void => {
+  const value = layer[key];
+  if (value !== undefined) settings[key] = value;
+};
+
+/**
+ * Validators of every supported setting
+ */
+const SETTING_VALIDATORS: Record<keyof ZhankaiSettings, SettingValidator> = {
+  output: isString,
+  depth: (value) =>
+    value === "Infinity" ||
+    value === Infinity ||
+    (typeof value === "number" && Number.isInteger(value) && value >= 0)
+      ? null
+      : 'must be a non-negative integer or "Infinity"',
+  timeout: isPositiveInteger,
+  provider: isString,
+  model: isString,
+  providerUrl: isUrl,
+  maxFileLines: isPositiveInteger,
+  previewLines: isPositiveInteger,
+  maxFileSize: isPositiveInteger,
+  defaultIgnores: isStringList,
+  include: isStringList,
+  exclude: isStringList,
+  maxTokens: isPositiveInteger,
+  priority: (value) =>
+    typeof value === "string" && BUDGET_PRIORITIES.includes(value)
+      ? null
+      : `must be one of ${BUDGET_PRIORITIES.join(", ")}`,
+  format: (value) =>
+    typeof value === "string" && writerUtils.listFormats().includes(value)
+      ? null
+      : `must be one of ${writerUtils.listFormats().join(", ")}`,
+  truncation: (value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return "must be an object mapping glob patterns to strategies";
+    }
+
+    const strategies = truncationUtils.listStrategies();
+    for (const [pattern, strategy] of Object.entries(value)) {
+      if (typeof strategy !== "string" || !strategies.includes(strategy)) {
+        return `${pattern} must be one of ${strategies.join(", ")}`;
+      }
+    }
+
+    return null;
+  },
+  respectGit: isBoolean,
+  verify: isStringList,
+  maxRepairs: (value) =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0
+      ? null
+      : "must be a non-negative integer",
+  stream: isBoolean,
+  rukhApiUrl: isUrl,
+  maxRetries: isPositiveInteger,
+  retryDelay: (value) =>
+    typeof value === "number" && value >= 0
+      ? null
+      : "must be a non-negative number",
+  providers: (value) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return "must be an object mapping provider names to settings";
+    }
+
+    for (const [name, settings] of Object.entries(value)) {
+      if (!settings || typeof settings !== "object") {
+        return `${name} must be an object with url, model and apiKeyEnv`;
+      }
+
+      for (const [key, item] of Object.entries(settings)) {
+        if (!["url", "model", "apiKeyEnv"].includes(key)) {
+          return `${name}.${key} is not a provider setting (expected url, model or apiKeyEnv)`;
+        }
+        if (typeof item !== "string") {
+          return `${name}.${key} must be a string`;
+        }
+      }
+    }
+
+    return null;
+  },
+};
+
+/**
+ * Settings only read from the user config and flags: a repository config
+ * comes with the repository, so it must not choose where queries, the export
+ * and the signed SIWE challenge are sent, nor which environment variable is
+ * sent as an API key, nor which commands run in a shell to verify changes
+ */
+const USER_ONLY_SETTINGS: (keyof ZhankaiSettings)[] = [
+  "rukhApiUrl",
+  "providerUrl",
+  "verify",
+];
+
+/**
+ * Provider settings only read from the user config, for the same reasons
+ */
+const USER_ONLY_PROVIDER_SETTINGS: (keyof ProviderSettings)[] = [
+  "url",
+  "apiKeyEnv",
+];
+
+/**
+ * Built-in defaults
+ */
+const BUILT_IN_DEFAULTS: ZhankaiSettings = {
+  depth: Infinity,
+  timeout: constants.DEFAULT_TIMEOUT_MS,
+  provider: constants.DEFAULT_PROVIDER,
+  maxFileLines: constants.MAX_FILE_LINES,
+  previewLines: constants.PREVIEW_LINES,
+  maxFileSize: constants.MAX_FILE_SIZE,
+  defaultIgnores: [...constants.DEFAULT_IGNORES],
+  include: [],
+  exclude: [],
+  format: "markdown",
+  truncation: {},
+  respectGit: false,
+  verify: [],
+  maxRepairs: 0,
+  stream: true,
+  rukhApiUrl: constants.RUKH_API_URL,
+  maxRetries: constants.MAX_RETRIES,
+  retryDelay: constants.RETRY_DELAY,
+  providers: JSON.parse(JSON.stringify(constants.PROVIDERS)),
+};
+
+/**
+ * Gets the user-level Zhankai directory
+ */
+const getUserDir = (): string =>
+  path.join(
+    process.env.HOME || process.env.USERPROFILE || os.homedir(),
+    ".zhankai"
+  );
+
+/**
+ * Finds the first existing file among candidates in a directory
+ */
+const findFirstExisting = async (
+  dir: string,
+  candidates: string[]
+): Promise<string | null> => {
+  for (const candidate of candidates) {
+    const filePath = path.join(dir, candidate);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Config file utilities namespace
+ */
+export const configFileUtils = {
+  /**
+   * Gets the built-in default settings
+   */
+  getDefaults(): ZhankaiSettings {
+    return JSON.parse(JSON.stringify(BUILT_IN_DEFAULTS), (key, value) =>
+      key === "depth" && value === null ? Infinity : value
+    );
+  },
+
+  /**
+   * Finds the repository-level config file
+   */
+  async findRepoConfig(baseDir: string): Promise<string | null> {
+    return findFirstExisting(baseDir, constants.REPO_CONFIG_FILES);
+  },
+
+  /**
+   * Finds the user-level config file
+   */
+  async findUserConfig(): Promise<string | null> {
+    return findFirstExisting(getUserDir(), constants.USER_CONFIG_FILES);
+  },
+
+  /**
+   * Reads and parses a JSON or YAML config file
+   */
+  async readConfigFile(filePath: string): Promise<RawSettings> {
+    const content = await fs.readFile(filePath, "utf8");
+
+    let parsed: unknown;
+    try {
+      // YAML is a superset of JSON, so extension-less rc files accept both
+      parsed =
+        path.extname(filePath) === ".json"
+          ? JSON.parse(content)
+          : YAML.parse(content);
+    } catch (error) {
+      throw new Error(
+        `Invalid config file ${filePath}: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+
+    if (parsed === null || parsed === undefined) {
+      return {};
+    }
+
+    if (typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(
+        `Invalid config file ${filePath}: expected an object of settings`
+      );
+    }
+
+    return parsed as RawSettings;
+  },
+
+  /**
+   * Validates raw settings
+   * @param raw Settings read from a config file
+   * @param source Name of the file, used in error messages
+   * @returns A list of error messages, empty if the settings are valid
+   */
+  validate(raw: RawSettings, source: string): string[] {
+    const errors: string[] = [];
+    const knownKeys = Object.keys(SETTING_VALIDATORS);
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (!knownKeys.includes(key)) {
+        const suggestion = knownKeys.find(
+          (known) =>
+            known.toLowerCase() === key.toLowerCase().replace(/[-_]/g, "")
+        );
+        errors.push(
+          `${source}: unknown setting "${key}"${
+            suggestion ? `, did you mean "${suggestion}"?` : ""
+          }`
+        );
+        continue;
+      }
+
+      const error = SETTING_VALIDATORS[key as keyof ZhankaiSettings](value);
+      if (error) {
+        errors.push(`${source}: "${key}" ${error}`);
+      }
+    }
+
+    return errors;
+  },
+
+  /**
+   * Leaves out the settings a repository config may not change
+   * @returns The remaining settings, and the names of the ones left out
+   */
+  removeUserOnlySettings(raw: RawSettings): {
+    settings: RawSettings;
+    ignored: string[];
+  } {
+    const settings: RawSettings = {};
+    const ignored: string[] = [];
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (USER_ONLY_SETTINGS.includes(key as keyof ZhankaiSettings)) {
+        ignored.push(key);
+      } else if (key === "providers" && value && typeof value === "object") {
+        const providers: Record<string, Record<string, unknown>> = {};
+
+        for (const [name, providerSettings] of Object.entries(value)) {
+          providers[name] = {};
+          for (const [providerKey, item] of Object.entries(
+            providerSettings as Record<string, unknown>
+          )) {
+            if (
+              USER_ONLY_PROVIDER_SETTINGS.includes(
+                providerKey as keyof ProviderSettings
+              )
+            ) {
+              ignored.push(`providers.${name}.${providerKey}`);
+            } else {
+              providers[name][providerKey] = item;
+            }
+          }
+        }
+
+        settings.providers = providers;
+      } else {
+        settings[key] = value;
+      }
+    }
+
+    return { settings, ignored };
+  },
+
+  /**
+   * Converts validated raw settings to typed settings
+   */
+  normalize(raw: RawSettings): Partial<ZhankaiSettings> {
+    const settings = { ...raw } as Partial<ZhankaiSettings>;
+
+    if (raw.depth === "Infinity") {
+      settings.depth = Infinity;
+    }
+
+    return settings;
+  },
+
+  /**
+   * Loads the effective settings, merging flags > repo > user > defaults
+   * @param baseDir Repository root
+   * @param flags Settings given on the command line
+   * @throws If a config file is invalid, listing every problem found
+   */
+  async loadSettings(
+    baseDir: string,
+    flags: Partial<ZhankaiSettings> = {}
+  ): Promise<{
+    settings: ZhankaiSettings;
+    sources: Record<string, SettingSource>;
+    files: string[];
+  }> {
+    const settings = this.getDefaults();
+    const sources: Record<string, SettingSource> = {};
+    for (const key of Object.keys(settings)) {
+      sources[key] = "default";
+    }
+
+    const layers: { source: SettingSource; filePath: string | null }[] = [
+      { source: "user", filePath: await this.findUserConfig() },
+      { source: "repo", filePath: await this.findRepoConfig(baseDir) },
+    ];
+
+    const errors: string[] = [];
+    const files: string[] = [];
+
+    for (const { source, filePath } of layers) {
+      if (!filePath) continue;
+
+      let raw: RawSettings;
+      try {
+        raw = await this.readConfigFile(filePath);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      const layerErrors = this.validate(raw, filePath);
+      errors.push(...layerErrors);
+      if (layerErrors.length > 0) continue;
+
+      if (source === "repo") {
+        const { settings: allowed, ignored } =
+          this.removeUserOnlySettings(raw);
+        if (ignored.length > 0) {
+          logger.warn(
+            `Ignoring ${ignored.join(
+              ", "
+            )} in ${filePath}: these settings are only read from the user config in ${getUserDir()} and from flags`
+          );
+        }
+        raw = allowed;
+      }
+
+      files.push(filePath);
+      this.merge(settings, sources, this.normalize(raw), source);
+    }
+
+    // Flags are checked like config files, "--timeout abc" arrives as NaN
+    const givenFlags = Object.fromEntries(
+      Object.entries(flags).filter(([, value]) => value !== undefined)
+    );
+    errors.push(...this.validate(givenFlags, "command line"));
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid configuration:\n  - ${errors.join("\n  - ")}`);
+    }
+
+    this.merge(settings, sources, flags, "flag");
+
+    return { settings, sources, files };
+  },
+
+  /**
+   * Merges a layer of settings into the effective settings
+   */
+  merge(
+    settings: ZhankaiSettings,
+    sources: Record<string, SettingSource>,
+    layer: Partial<ZhankaiSettings>,
+    source: SettingSource
+  ): void {
+    for (const key of Object.keys(layer) as (keyof ZhankaiSettings)[]) {
+      if (layer[key] === undefined) continue;
+
+      if (key === "providers") {
+        // Provider settings are merged per provider
+        for (const [name, providerSettings] of Object.entries(
+          layer.providers!
+        )) {
+          settings.providers[name] = {
+            ...(settings.providers[name] || {
+              url: "",
+              model: "",
+              apiKeyEnv: "",
+            }),
+            ...providerSettings,
+          };
+        }
+      } else if (key === "truncation") {
+        // Rules are merged per pattern, moving overridden ones last to win
+        for (const [pattern, strategy] of Object.entries(layer.truncation!)) {
+          delete settings.truncation[pattern];
+          settings.truncation[pattern] = strategy;
+        }
+      } else {
+        assignSetting(settings, layer, key);
+      }
+
+      sources[key] = source;
+    }
+  },
+
+  /**
+   * Writes a repository config file with the default settings
+   * @returns The path of the created file
+   */
+  async initConfig(baseDir: string, format: "json" | "yaml"): Promise<string> {
+    const existing = await this.findRepoConfig(baseDir);
+    if (existing) {
+      throw new Error(`A config file already exists: ${existing}`);
+    }
+
+    // A repository config cannot hold the settings read from the user config only
+    const { settings: defaults } = this.removeUserOnlySettings({
+      ...this.getDefaults(),
+    });
+    defaults.depth = "Infinity";
+
+    const filePath = path.join(
+      baseDir,
+      format === "yaml" ? "zhankai.config.yaml" : "zhankai.config.json"
+    );
+    const content =
+      format === "yaml"
+        ? YAML.stringify(defaults)
+        : `${JSON.stringify(defaults, null, 2)}\n`;
+
+    await fs.writeFile(filePath, content, "utf8");
+    return filePath;
+  },
+};
@@ -1,29 +1,106 @@
+import { ProviderSettings } from "../utils/types";
+
 /**
  * Application constants
  */
 export const constants = {
+  /** Config file names looked up at the repository root, in order */
+  REPO_CONFIG_FILES: [
+    "zhankai.config.json",
+    "zhankai.config.yaml",
+    "zhankai.config.yml",
+    ".zhankairc",
+    ".zhankairc.json",
+    ".zhankairc.yaml",
+    ".zhankairc.yml",
+  ],
+
+  /** Config file names looked up in the user-level ~/.zhankai directory, in order */
+  USER_CONFIG_FILES: ["config.json", "config.yaml", "config.yml"],
+
   /** Directory name for Zhankai output */
   ZHANKAI_DIR: "zhankai",
 
+  /** File listing extra export ignores, in gitignore syntax */
+  ZHANKAI_IGNORE_FILE: ".zhankaiignore",
+
+  /** Subdirectory of the Zhankai directory holding query change journals */
+  JOURNAL_DIR: "journal",
+
+  /** Subdirectory of the Zhankai directory holding the proposals of dry runs */
+  PROPOSALS_DIR: "proposals",
+
+  /** Subdirectory of the Zhankai directory holding the export cache */
+  CACHE_DIR: ".cache",
+
+  /** File of the cache directory storing exported files */
+  CACHE_FILE: "export.json",
+
+  /** File of the Zhankai directory storing conversation sessions */
+  SESSIONS_FILE: "sessions.json",
+
   /** Maximum file lines before truncation */
   MAX_FILE_LINES: 500,
 
   /** Preview lines for truncated files */
   PREVIEW_LINES: 30,
 
+  /** Maximum size in bytes of the files whose content is exported */
+  MAX_FILE_SIZE: 1024 * 1024,
+
+  /** Note replacing the content of a file left out of the token budget */
+  OMITTED_FILE_NOTE: "This file was omitted to fit the token budget",
+
+  /** Bytes read from the start of a file to tell text from binary */
+  BINARY_SNIFF_BYTES: 8000,
+
+  /** Maximum file system operations in flight during an export */
+  EXPORT_CONCURRENCY: 16,
+
   /** URL for Rukh API */
   RUKH_API_URL: "https://rukh.w3hc.org/ask",
   // RUKH_API_URL: "http://localhost:3000/ask",
 
+  /** Provider used when none is selected */
+  DEFAULT_PROVIDER: "rukh",
+
+  /** Default settings of the providers other than Rukh */
+  PROVIDERS: {
+    openai: {
+      url: "https://api.openai.com/v1/chat/completions",
+      model: "gpt-4o",
+      apiKeyEnv: "OPENAI_API_KEY",
+    },
+    anthropic: {
+      url: "https://api.anthropic.com/v1/messages",
+      model: "claude-3-7-sonnet-20250219",
+      apiKeyEnv: "ANTHROPIC_API_KEY",
+    },
+    ollama: {
+      url: "http://localhost:11434/api/chat",
+      model: "llama3.1",
+      apiKeyEnv: "",
+    },
+  } as Record<string, ProviderSettings>,
+
+  /** Maximum output tokens requested from providers that require it */
+  MAX_OUTPUT_TOKENS: 8192,
+
   /** Maximum API retry attempts */
   MAX_RETRIES: 5,
 
-  /** Delay between retry attempts in milliseconds */
+  /** Delay before the first API retry in milliseconds, doubled after each retry */
   RETRY_DELAY: 5000,
 
-  /** Default timeout for API requests in milliseconds (4 minutes) */
+  /** Longest delay between API retry attempts in milliseconds */
+  MAX_RETRY_DELAY: 60000,
+
+  /** Default time budget of API requests in milliseconds, retries included (4 minutes) */
   DEFAULT_TIMEOUT_MS: 240000,
 
+  /** Version of the response schema file changes are validated against */
+  RESPONSE_SCHEMA_VERSION: 1,
+
   /** Items to exclude from processing */
   EXCLUDED_ITEMS: ["LICENSE", ".git"],
 
@@ -108,3 +185,37 @@ export const imageExtensions = [
   ".ico",
   ".svg",
 ];
+
+/**
+ * MIME types by file extension, used in placeholders of non-text files
+ */
+export const mimeTypes: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".bmp": "image/bmp",
+  ".ico": "image/x-icon",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+  ".pdf": "application/pdf",
+  ".zip": "application/zip",
+  ".gz": "application/gzip",
+  ".tar": "application/x-tar",
+  ".7z": "application/x-7z-compressed",
+  ".wasm": "application/wasm",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".ttf": "font/ttf",
+  ".otf": "font/otf",
+  ".sqlite": "application/vnd.sqlite3",
+  ".db": "application/vnd.sqlite3",
+  ".mp3": "audio/mpeg",
+  ".mp4": "video/mp4",
+  ".json": "application/json",
+  ".xml": "application/xml",
+  ".md": "text/markdown",
+  ".html": "text/html",
+  ".css": "text/css",
+  ".js": "text/javascript",
+};
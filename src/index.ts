@@ -2,20 +2,29 @@
 
 import path from "path";
 import { Command } from "commander";
-import { existsSync, mkdirSync, readFileSync } from "fs";
+import { readFileSync } from "fs";
 import prompts from "prompts";
-import { ZhankaiConfig } from "./utils/types";
+import { ZhankaiConfig, ZhankaiSettings } from "./utils/types";
 import { GitHubCredentials } from "./utils/github-auth";
 import { gitUtils } from "./utils/git";
 import { fileUtils } from "./utils/file";
-import { markdownUtils } from "./utils/markdown";
+import { cacheUtils } from "./utils/cache";
+import { exportUtils } from "./utils/export";
 import { apiUtils } from "./utils/api";
 import { logger } from "./ui/logger";
+import { ChatRepl } from "./ui/chat";
 import { constants } from "./config/constants";
+import { configFileUtils } from "./config/config-file";
 import { colors } from "./config/constants";
 import { githubUtils } from "./utils/github";
 import { walletUtils } from "./utils/wallet";
 import { githubAuthUtils } from "./utils/github-auth";
+import { journalUtils } from "./utils/journal";
+import { proposalUtils } from "./utils/proposal";
+import { sessionUtils } from "./utils/session";
+import { tokenUtils } from "./utils/tokens";
+import { truncationUtils } from "./utils/truncation";
+import { writerUtils } from "./utils/writers";
 
 const packageJsonPath = path.join(__dirname, "..", "package.json");
 const pkg = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
@@ -27,21 +36,34 @@ async function main() {
   // Set up command line interface
   const program = new Command();
 
+  // Options after a command name belong to the command, e.g. "zhankai stats -i src"
   program
+    .enablePositionalOptions()
     .version(pkg.version)
     .description(
       "CLI tool for exporting repository content into a structured markdown file"
     )
     .option("-o, --output <filename>", "output filename")
-    .option("-d, --depth <number>", "maximum depth to traverse", "Infinity")
+    .option(
+      "-f, --format <format>",
+      'export format: markdown, json or xml (default: "markdown")'
+    );
+  addExportOptions(program)
     .option("-c, --contents", "include file contents", false)
+    .option(
+      "--changed-since <ref>",
+      "only export the files changed since a git ref, with their diff"
+    )
+    .option("--staged", "only export the staged files, with their diff")
+    .option("--no-cache", "export every file again, ignoring the export cache")
     .option("-q, --query <string>", "query to send to Rukh API")
-    .option("--debug", "enable debug mode")
+    .option("-y, --yes", "apply proposed file changes without review", false)
+    .option("-b, --branch", "commit proposed file changes on a new branch")
     .option(
-      "--timeout <number>",
-      "API request timeout in milliseconds",
-      String(constants.DEFAULT_TIMEOUT_MS)
+      "--dry-run",
+      "save proposed file changes in zhankai/proposals instead of applying them"
     );
+  addQueryOptions(program);
 
   program.action(async (options) => {
     try {
@@ -189,6 +211,135 @@ async function main() {
       }
     });
 
+  program
+    .command("undo")
+    .description("Revert the file changes applied by a query")
+    .argument("[queryId]", "query to revert (defaults to the latest one)")
+    .option("-l, --list", "list recorded queries instead of reverting")
+    .option("-f, --force", "revert files even if they changed since the query")
+    .action(async (queryId, options) => {
+      try {
+        if (options.list) {
+          const journals = await journalUtils.listJournals();
+
+          if (journals.length === 0) {
+            logger.info("No recorded queries");
+            return;
+          }
+
+          for (const journal of journals) {
+            logger.info(
+              `${colors.BOLD}${journal.queryId}${colors.RESET} ${
+                journal.entries.length
+              } file(s)${journal.undoneAt ? " (undone)" : ""}${
+                journal.query ? ` - ${journal.query}` : ""
+              }`
+            );
+          }
+          return;
+        }
+
+        const journal = await journalUtils.undo(queryId, options.force);
+
+        if (journal) {
+          logger.info(
+            `${colors.FG_GREEN}✓ Reverted ${journal.entries.length} file change(s) from query ${journal.queryId}${colors.RESET}`
+          );
+        }
+      } catch (error) {
+        logger.error("Failed to undo query:", error);
+      }
+    });
+
+  program
+    .command("apply")
+    .description("Apply the file changes proposed by a dry run")
+    .argument("[id]", "proposal to apply (defaults to the latest one)")
+    .option("-l, --list", "list saved proposals instead of applying")
+    .option("-y, --yes", "apply proposed file changes without review", false)
+    .option("-b, --branch", "commit proposed file changes on a new branch")
+    .option("-f, --force", "apply even if files changed since the dry run")
+    .action(async (id, options) => {
+      try {
+        await handleApplyCommand(id, options);
+      } catch (error) {
+        logger.error("Failed to apply proposal:", error);
+      }
+    });
+
+  const stats = program
+    .command("stats")
+    .description("Show the estimated token count of each exported file");
+  addExportOptions(stats)
+    .option("-q, --query <string>", "query used to rank files by relevance")
+    .action(async (options) => {
+      try {
+        await handleStatsCommand(options);
+      } catch (error) {
+        logger.error("Failed to compute stats:", error);
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command("config")
+    .description("Show, create or validate the configuration")
+    .argument("[action]", "show, init or validate", "show")
+    .option("--yaml", "create a YAML config file with init")
+    .action(async (action, options) => {
+      try {
+        await handleConfigCommand(action, options);
+      } catch (error) {
+        logger.error(error instanceof Error ? error.message : error);
+        process.exitCode = 1;
+      }
+    });
+
+  program
+    .command("cache")
+    .description("Manage the cache of exported files")
+    .argument("<action>", "clear")
+    .action(async (action) => {
+      try {
+        await handleCacheCommand(action);
+      } catch (error) {
+        logger.error("Failed to manage the cache:", error);
+        process.exitCode = 1;
+      }
+    });
+
+  const chat = program
+    .command("chat")
+    .description("Chat with Rukh about the current repository")
+    .option(
+      "-f, --format <format>",
+      'format of the repository context: markdown, json or xml (default: "markdown")'
+    );
+  addExportOptions(chat).option(
+    "--no-cache",
+    "export every file again, ignoring the export cache"
+  );
+  addQueryOptions(chat).action(async (options) => {
+    try {
+      await runChat(options);
+    } catch (error) {
+      logger.error("Failed to run chat:", error);
+    }
+  });
+
+  program
+    .command("sessions")
+    .description("List, resume or delete conversation sessions")
+    .argument("[action]", "list, resume, new or delete", "list")
+    .argument("[sessionId]", "session to resume or delete")
+    .action(async (action, sessionId) => {
+      try {
+        await handleSessionsCommand(action, sessionId);
+      } catch (error) {
+        logger.error("Failed to manage sessions:", error);
+      }
+    });
+
   program.parse(process.argv);
 }
 
@@ -232,6 +383,394 @@ async function handleGitHubAuth(): Promise<GitHubCredentials | null> {
   return githubCredentials;
 }
 
+/**
+ * Handles the sessions command
+ */
+async function handleSessionsCommand(
+  action: string,
+  sessionId?: string
+): Promise<void> {
+  switch (action) {
+    case "list": {
+      const sessions = await sessionUtils.listSessions();
+      const currentSessionId = await sessionUtils.getCurrentSessionId();
+
+      if (sessions.length === 0) {
+        logger.info("No sessions yet");
+        return;
+      }
+
+      for (const session of sessions) {
+        const marker = session.id === currentSessionId ? "* " : "  ";
+        logger.info(
+          `${marker}${colors.BOLD}${session.id}${colors.RESET} ${session.turns.length} query(ies), last used ${session.updatedAt}`
+        );
+        for (const turn of session.turns) {
+          logger.info(
+            `      ${colors.DIM}${turn.transcript}${colors.RESET} ${turn.query}`
+          );
+        }
+      }
+      return;
+    }
+
+    case "resume":
+      if (!sessionId) {
+        logger.error("Please provide the session to resume");
+        return;
+      }
+      if (await sessionUtils.resumeSession(sessionId)) {
+        logger.info(
+          `${colors.FG_GREEN}✓ Next queries will continue session ${sessionId}${colors.RESET}`
+        );
+      } else {
+        logger.error(`Unknown session: ${sessionId}`);
+      }
+      return;
+
+    case "new":
+      await sessionUtils.clearCurrentSession();
+      logger.info(
+        `${colors.FG_GREEN}✓ Next query will start a new session${colors.RESET}`
+      );
+      return;
+
+    case "delete":
+      if (!sessionId) {
+        logger.error("Please provide the session to delete");
+        return;
+      }
+      if (await sessionUtils.deleteSession(sessionId)) {
+        logger.info(
+          `${colors.FG_GREEN}✓ Deleted session ${sessionId} and its transcripts${colors.RESET}`
+        );
+      } else {
+        logger.error(`Unknown session: ${sessionId}`);
+      }
+      return;
+
+    default:
+      logger.error(
+        `Unknown action: ${action}. Use list, resume, new or delete.`
+      );
+  }
+}
+
+/**
+ * Collects the values of a repeatable option
+ */
+function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Adds the options choosing the exported files and their token budget
+ */
+function addExportOptions(command: Command): Command {
+  return command
+    .option(
+      "-d, --depth <number>",
+      "maximum depth to traverse (default: Infinity)"
+    )
+    .option(
+      "-i, --include <glob>",
+      "only export files matching the glob (repeatable)",
+      collect
+    )
+    .option(
+      "-e, --exclude <glob>",
+      "leave files matching the glob out of the export (repeatable)",
+      collect
+    )
+    .option(
+      "--respect-git",
+      "export only the files listed by git ls-files instead of reading ignore files"
+    )
+    .option(
+      "--max-tokens <number>",
+      "maximum estimated tokens of the export, truncating or omitting files beyond it"
+    )
+    .option(
+      "--priority <strategy>",
+      "order in which files get the token budget: relevance, recent or size (default: relevance with a query, size otherwise)"
+    )
+    .option(
+      "--truncate <[glob=]strategy>",
+      "way of cutting long files matching the glob, all files if unset: head, head-tail, outline or relevance (repeatable)",
+      collect
+    );
+}
+
+/**
+ * Adds the options of queries and of the checks of their file changes
+ */
+function addQueryOptions(command: Command): Command {
+  return command
+    .option(
+      "--verify <command>",
+      "command checking applied file changes, such as a build or tests (repeatable)",
+      collect
+    )
+    .option("--no-verify", "skip the checks of applied file changes")
+    .option(
+      "--repair <number>",
+      "follow-up queries asking to fix failed checks (default: 0)"
+    )
+    .option("--no-stream", "print the answer once it is complete")
+    .option("--session <id>", "continue the given conversation session")
+    .option("--new-session", "start a new conversation session")
+    .option(
+      "--provider <name>",
+      `LLM provider: rukh, openai, anthropic or ollama (default: "${constants.DEFAULT_PROVIDER}")`
+    )
+    .option("--model <name>", "model to use with the provider")
+    .option("--provider-url <url>", "endpoint URL of the provider")
+    .option("--debug", "enable debug mode")
+    .option(
+      "--timeout <number>",
+      `time budget of API requests in milliseconds, retries included (default: ${constants.DEFAULT_TIMEOUT_MS})`
+    );
+}
+
+/**
+ * Parses a numeric option, leaving NaN for invalid numbers so that the
+ * settings validation reports them
+ */
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  return /^\s*\d+\s*$/.test(value) ? Number(value) : NaN;
+}
+
+/**
+ * Loads the effective settings from command line options and config files
+ */
+async function loadSettings(
+  baseDir: string,
+  options: any
+): Promise<ZhankaiSettings> {
+  const { settings } = await configFileUtils.loadSettings(baseDir, {
+    output: options.output,
+    depth: options.depth === "Infinity" ? Infinity : parseNumber(options.depth),
+    timeout: parseNumber(options.timeout),
+    provider: options.provider,
+    model: options.model,
+    providerUrl: options.providerUrl,
+    include: options.include,
+    exclude: options.exclude,
+    maxTokens: parseNumber(options.maxTokens),
+    priority: options.priority,
+    format: options.format,
+    respectGit: options.respectGit,
+    verify: options.verify === false ? [] : options.verify,
+    maxRepairs: parseNumber(options.repair),
+    stream: options.stream === false ? false : undefined,
+    truncation: options.truncate
+      ? Object.fromEntries(options.truncate.map(truncationUtils.parseRule))
+      : undefined,
+  });
+
+  logger.debug("Loaded settings:", settings);
+  return settings;
+}
+
+/**
+ * Handles the config command
+ */
+async function handleConfigCommand(
+  action: string,
+  options: any
+): Promise<void> {
+  const baseDir = process.cwd();
+
+  switch (action) {
+    case "show": {
+      const { settings, sources, files } = await configFileUtils.loadSettings(
+        baseDir
+      );
+
+      logger.info(
+        files.length > 0
+          ? `Config files: ${files.join(", ")}`
+          : "No config file found, using defaults"
+      );
+      for (const [key, value] of Object.entries(settings)) {
+        logger.info(
+          `${colors.BOLD}${key}${colors.RESET} = ${JSON.stringify(
+            value === Infinity ? "Infinity" : value
+          )} ${colors.DIM}(${sources[key]})${colors.RESET}`
+        );
+      }
+      return;
+    }
+
+    case "init": {
+      const filePath = await configFileUtils.initConfig(
+        baseDir,
+        options.yaml ? "yaml" : "json"
+      );
+      logger.info(
+        `${colors.FG_GREEN}✓ Created config file: ${filePath}${colors.RESET}`
+      );
+      return;
+    }
+
+    case "validate": {
+      const { files } = await configFileUtils.loadSettings(baseDir);
+      logger.info(
+        files.length > 0
+          ? `${colors.FG_GREEN}✓ Valid configuration: ${files.join(", ")}${
+              colors.RESET
+            }`
+          : "No config file found"
+      );
+      return;
+    }
+
+    default:
+      logger.error(`Unknown action: ${action}. Use show, init or validate.`);
+  }
+}
+
+/**
+ * Handles the cache command
+ */
+async function handleCacheCommand(action: string): Promise<void> {
+  switch (action) {
+    case "clear":
+      logger.info(
+        (await cacheUtils.clear(process.cwd()))
+          ? `${colors.FG_GREEN}✓ Cleared the export cache${colors.RESET}`
+          : "No export cache to clear"
+      );
+      return;
+
+    default:
+      logger.error(`Unknown action: ${action}. Use clear.`);
+      process.exitCode = 1;
+  }
+}
+
+/**
+ * Handles the apply command
+ * @param id Proposal to apply, the latest one if unset
+ */
+async function handleApplyCommand(
+  id: string | undefined,
+  options: any
+): Promise<void> {
+  if (options.list) {
+    const proposals = await proposalUtils.listProposals();
+
+    if (proposals.length === 0) {
+      logger.info("No saved proposals");
+      return;
+    }
+
+    for (const proposal of proposals) {
+      logger.info(
+        `${colors.BOLD}${proposal.id}${colors.RESET} ${
+          proposal.files.length
+        } file(s)${proposal.query ? ` - ${proposal.query}` : ""}`
+      );
+    }
+    return;
+  }
+
+  const proposal = id
+    ? await proposalUtils.getProposal(id)
+    : (await proposalUtils.listProposals())[0] || null;
+
+  if (!proposal) {
+    logger.error(
+      id ? `No proposal found with id ${id}` : "No proposal to apply"
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  logger.info(`Applying proposal ${proposal.id}:`);
+  proposalUtils.printProposal(proposal);
+
+  const changedFiles = await proposalUtils.getChangedFiles(proposal);
+  if (changedFiles.length > 0) {
+    if (!options.force) {
+      logger.error(
+        `Not applying proposal ${proposal.id}, file(s) changed since it was made: ${changedFiles.join(
+          ", "
+        )}. Apply with --force to replace their changes`
+      );
+      process.exitCode = 1;
+      return;
+    }
+    logger.warn(
+      `These files changed since the proposal was made, applying it replaces their changes: ${changedFiles.join(
+        ", "
+      )}`
+    );
+  }
+
+  await apiUtils.applyFileUpdates(
+    await proposalUtils.getFileUpdates(proposal),
+    {
+      autoApprove: options.yes,
+      branch: options.branch,
+      queryId: proposal.id,
+      query: proposal.query,
+    },
+    proposal.summary
+  );
+}
+
+/**
+ * Handles the stats command
+ */
+async function handleStatsCommand(options: any): Promise<void> {
+  const baseDir = process.cwd();
+  const settings = await loadSettings(baseDir, options);
+
+  const config: ZhankaiConfig = {
+    output: "",
+    depth: settings.depth,
+    contents: true,
+    query: options.query,
+    include: settings.include,
+    exclude: settings.exclude,
+    maxTokens: settings.maxTokens,
+    priority: settings.priority,
+    format: settings.format,
+    truncation: settings.truncation,
+    respectGit: settings.respectGit,
+    maxFileLines: settings.maxFileLines,
+    previewLines: settings.previewLines,
+    maxFileSize: settings.maxFileSize,
+    defaultIgnores: settings.defaultIgnores,
+  };
+
+  const ignoreRules = await fileUtils.getIgnoreRules(
+    baseDir,
+    config.exclude,
+    config.respectGit,
+    config.defaultIgnores
+  );
+  const { stats, plan } = await exportUtils.measureExport(
+    baseDir,
+    config,
+    ignoreRules
+  );
+
+  if (stats.length === 0) {
+    logger.info("No files to export");
+    return;
+  }
+
+  logger.info(
+    `Estimated tokens of the export:\n\n${tokenUtils.createStatsTable(
+      stats,
+      plan
+    )}`
+  );
+}
+
 /**
  * Main Zhankai execution function
  */
@@ -240,15 +779,48 @@ async function runZhankai(options: any) {
   const repoName = await gitUtils.getRepoName(baseDir);
 
   // Parse options into config
+  const settings = await loadSettings(baseDir, options);
+
   const config: ZhankaiConfig = {
-    output: options.output || `${repoName}_app_description.md`,
-    depth: options.depth === "Infinity" ? Infinity : parseInt(options.depth),
+    output:
+      settings.output ||
+      `${repoName}_app_description${
+        writerUtils.createWriter(settings.format).extension
+      }`,
+    depth: settings.depth,
+    include: settings.include,
+    exclude: settings.exclude,
+    maxTokens: settings.maxTokens,
+    priority: settings.priority,
+    format: settings.format,
+    truncation: settings.truncation,
+    respectGit: settings.respectGit,
+    maxFileLines: settings.maxFileLines,
+    previewLines: settings.previewLines,
+    maxFileSize: settings.maxFileSize,
+    defaultIgnores: settings.defaultIgnores,
     contents: options.contents,
     query: options.query,
+    changedSince: options.changedSince,
+    cache: options.cache,
+    staged: options.staged,
     debug: options.debug,
-    timeout: options.timeout
-      ? parseInt(options.timeout)
-      : constants.DEFAULT_TIMEOUT_MS,
+    yes: options.yes,
+    branch: options.branch,
+    dryRun: options.dryRun,
+    verify: settings.verify,
+    maxRepairs: settings.maxRepairs,
+    stream: settings.stream,
+    session: options.session,
+    newSession: options.newSession,
+    provider: settings.provider,
+    model: settings.model,
+    providerUrl: settings.providerUrl,
+    rukhApiUrl: settings.rukhApiUrl,
+    maxRetries: settings.maxRetries,
+    retryDelay: settings.retryDelay,
+    providers: settings.providers,
+    timeout: settings.timeout,
   };
 
   // Enable debug mode if specified
@@ -257,8 +829,25 @@ async function runZhankai(options: any) {
     logger.debug("Debug mode enabled");
   }
 
+  // Restrict the export to the changed files
+  if (config.changedSince || config.staged) {
+    if (!(await gitUtils.isGitRepository(baseDir))) {
+      throw new Error("--changed-since and --staged need a git repository");
+    }
+
+    config.files = await gitUtils.getDiffFiles(
+      { ref: config.changedSince, staged: config.staged },
+      baseDir
+    );
+    logger.info(
+      `Exporting ${config.files.length} changed file(s) ${
+        config.staged ? "staged" : "in the working tree"
+      }${config.changedSince ? ` since ${config.changedSince}` : ""}`
+    );
+  }
+
   // Setup output directory
-  const zhankaiDir = await setupOutputDirectory(baseDir);
+  const zhankaiDir = await exportUtils.setupOutputDirectory(baseDir);
 
   // Generate unique output filename
   const outputPath = path.join(zhankaiDir, config.output);
@@ -266,10 +855,20 @@ async function runZhankai(options: any) {
   config.output = uniqueOutputPath;
 
   // Load gitignore patterns
-  const ignoreRules = await fileUtils.getIgnoreRules(baseDir);
+  const ignoreRules = await fileUtils.getIgnoreRules(
+    baseDir,
+    config.exclude,
+    config.respectGit,
+    config.defaultIgnores
+  );
 
   // Generate repository documentation
-  await generateRepoDocumentation(baseDir, repoName, config, ignoreRules);
+  await exportUtils.generateRepoDocumentation(
+    baseDir,
+    repoName,
+    config,
+    ignoreRules
+  );
 
   // Handle query if provided
   if (config.query) {
@@ -278,86 +877,133 @@ async function runZhankai(options: any) {
 }
 
 /**
- * Sets up the output directory
+ * Runs the interactive chat
  */
-async function setupOutputDirectory(baseDir: string): Promise<string> {
-  const zhankaiDir = path.join(baseDir, constants.ZHANKAI_DIR);
-
-  try {
-    if (!existsSync(zhankaiDir)) {
-      mkdirSync(zhankaiDir, { recursive: true });
-      logger.info(`Created zhankai directory: ${zhankaiDir}`);
-
-      // Add /zhankai to .gitignore
-      await gitUtils.addToGitignore(baseDir, constants.ZHANKAI_DIR);
-    } else {
-      logger.info(`Using existing zhankai directory: ${zhankaiDir}`);
-    }
-
-    return zhankaiDir;
-  } catch (error) {
-    logger.error("Error setting up output directory:", error);
-    throw error;
-  }
-}
+async function runChat(options: any): Promise<void> {
+  const baseDir = process.cwd();
+  const repoName = await gitUtils.getRepoName(baseDir);
 
-/**
- * Generates repository documentation
- */
-async function generateRepoDocumentation(
-  baseDir: string,
-  repoName: string,
-  config: ZhankaiConfig,
-  ignoreRules: any
-): Promise<void> {
-  // Initialize output file with repo name
-  let content = `# ${repoName}\n\n`;
-  await fileUtils.writeFile(config.output, content);
+  const settings = await loadSettings(baseDir, options);
 
-  // Traverse directory and generate content
-  await fileUtils.traverseDirectory(baseDir, config, 0, baseDir, ignoreRules);
+  const config: ZhankaiConfig = {
+    output:
+      settings.output ||
+      `${repoName}_app_description${
+        writerUtils.createWriter(settings.format).extension
+      }`,
+    depth: settings.depth,
+    include: settings.include,
+    exclude: settings.exclude,
+    maxTokens: settings.maxTokens,
+    priority: settings.priority,
+    format: settings.format,
+    truncation: settings.truncation,
+    respectGit: settings.respectGit,
+    maxFileLines: settings.maxFileLines,
+    previewLines: settings.previewLines,
+    maxFileSize: settings.maxFileSize,
+    defaultIgnores: settings.defaultIgnores,
+    contents: true,
+    cache: options.cache,
+    verify: settings.verify,
+    maxRepairs: settings.maxRepairs,
+    stream: settings.stream,
+    debug: options.debug,
+    provider: settings.provider,
+    model: settings.model,
+    providerUrl: settings.providerUrl,
+    rukhApiUrl: settings.rukhApiUrl,
+    maxRetries: settings.maxRetries,
+    retryDelay: settings.retryDelay,
+    providers: settings.providers,
+    timeout: settings.timeout,
+  };
 
-  // Generate and append file structure
-  const fileStructure = await fileUtils.generateFileStructure(
-    baseDir,
-    config.depth,
-    "",
-    true,
-    baseDir,
-    ignoreRules
-  );
+  if (config.debug) {
+    logger.enableDebugMode();
+  }
 
-  await fileUtils.appendFile(
-    config.output,
-    `\n## Structure\n\n\`\`\`\n${fileStructure}\`\`\`\n`
-  );
+  if (
+    (config.provider || constants.DEFAULT_PROVIDER) === "rukh" &&
+    (!(await githubAuthUtils.isAuthenticated()) ||
+      !(await walletUtils.walletExists()))
+  ) {
+    logger.warn(
+      "You are not authenticated with GitHub or don't have a wallet. Some features might be restricted."
+    );
+    logger.warn("To authenticate and create a wallet, run: zhankai login");
+  }
 
-  // Add timestamp
-  content = `\nTimestamp: ${markdownUtils.generateTimestamp()}`;
-  await fileUtils.appendFile(config.output, content);
+  const sessionId = options.newSession
+    ? ""
+    : options.session || (await sessionUtils.getCurrentSessionId()) || "";
 
-  logger.info(
-    `Content of all files and repo structure written: ${config.output}`
-  );
+  await new ChatRepl(config, baseDir, repoName, sessionId).start();
 }
 
 /**
- * Handles query to Rukh API
+ * Handles query to Rukh API or another provider
  */
 async function handleQuery(config: ZhankaiConfig): Promise<void> {
-  // Check for uncommitted changes
-  const hasChanges = await gitUtils.hasUncommittedChanges();
+  // Proposed file changes are reviewed one by one unless --yes is used
+  if (
+    config.yes &&
+    !config.branch &&
+    !config.dryRun &&
+    (await gitUtils.hasUncommittedChanges())
+  ) {
+    logger.warn(
+      "Uncommitted changes detected. Proposed file changes will be applied without review."
+    );
+  }
 
-  if (hasChanges) {
-    const shouldProceed = await confirmProceedWithUncommittedChanges();
+  // Rukh authenticates with the GitHub-derived wallet
+  const provider = config.provider || constants.DEFAULT_PROVIDER;
+  if (provider === "rukh" && !(await confirmRukhAuthentication())) {
+    return;
+  }
 
-    if (!shouldProceed) {
-      logger.info("Operation cancelled. Please commit your changes first.");
-      return;
-    }
+  // Continue the current session unless told otherwise
+  const sessionId = config.newSession
+    ? ""
+    : config.session || (await sessionUtils.getCurrentSessionId()) || "";
+
+  if (sessionId) {
+    logger.info(`Continuing session: ${sessionId}`);
   }
 
-  // Check for GitHub authentication
+  // Send query to the provider
+  logger.info(`Processing query: "${config.query}"`);
+  await apiUtils.sendQueryToRukh(
+    config.query || "",
+    config.output,
+    config.debug || false,
+    config.timeout,
+    {
+      autoApprove: config.yes,
+      queryId: journalUtils.createQueryId(),
+      branch: config.branch,
+      dryRun: config.dryRun,
+      verify: config.verify,
+      maxRepairs: config.maxRepairs,
+      stream: config.stream,
+      sessionId,
+      provider: config.provider,
+      model: config.model,
+      providerUrl: config.providerUrl,
+      rukhApiUrl: config.rukhApiUrl,
+      maxRetries: config.maxRetries,
+      retryDelay: config.retryDelay,
+      providers: config.providers,
+    }
+  );
+}
+
+/**
+ * Checks the GitHub and wallet authentication used by the Rukh API
+ * @returns false if the user chose not to continue without authentication
+ */
+async function confirmRukhAuthentication(): Promise<boolean> {
   const isAuthenticated = await githubAuthUtils.isAuthenticated();
   const walletExists = await walletUtils.walletExists();
 
@@ -378,7 +1024,7 @@ async function handleQuery(config: ZhankaiConfig): Promise<void> {
 
     if (!response.continue) {
       logger.info("Operation cancelled. Please run 'zhankai login' first.");
-      return;
+      return false;
     }
   } else {
     const githubCredentials = await githubAuthUtils.getGitHubCredentials();
@@ -389,29 +1035,7 @@ async function handleQuery(config: ZhankaiConfig): Promise<void> {
     logger.info("Authentication enabled for Rukh API");
   }
 
-  // Send query to Rukh API
-  logger.info(`Processing query: "${config.query}"`);
-  await apiUtils.sendQueryToRukh(
-    config.query || "",
-    config.output,
-    config.debug || false,
-    config.timeout
-  );
-}
-
-/**
- * Asks the user for confirmation to proceed with the query despite uncommitted changes
- */
-async function confirmProceedWithUncommittedChanges(): Promise<boolean> {
-  const response = await prompts({
-    type: "confirm",
-    name: "value",
-    message:
-      "Uncommitted changes detected. Proceeding might overwrite files. Continue anyway?",
-    initial: false,
-  });
-
-  return response.value;
+  return true;
 }
 
 // Run the main function
@@ -0,0 +1,225 @@
+import path from "path";
+import prompts from "prompts";
+import { logger } from "./logger";
+import { colors, constants } from "../config/constants";
+import { apiUtils } from "../utils/api";
+import { exportUtils } from "../utils/export";
+import { fileUtils } from "../utils/file";
+import { journalUtils } from "../utils/journal";
+import { sessionUtils } from "../utils/session";
+import { writerUtils } from "../utils/writers";
+import { ZhankaiConfig } from "../utils/types";
+
+/**
+ * Slash commands available in the chat
+ */
+const CHAT_COMMANDS: Record<string, string> = {
+  "/refresh": "regenerate the repository context",
+  "/files": "list files changed during this chat",
+  "/undo": "revert the file changes of the latest query",
+  "/new": "start a new conversation session",
+  "/help": "show this help",
+  "/exit": "leave the chat",
+};
+
+/**
+ * Interactive chat with the Rukh API about the current repository
+ */
+export class ChatRepl {
+  private config: ZhankaiConfig;
+  private baseDir: string;
+  private repoName: string;
+  private zhankaiDir: string;
+  private sessionId: string;
+  private queryIds: string[];
+
+  /**
+   * Creates a new ChatRepl instance
+   * @param config Export configuration, its output is replaced by the generated context file
+   * @param baseDir Repository root
+   * @param repoName Repository name
+   * @param sessionId Conversation session to continue, empty to start a new one
+   */
+  constructor(
+    config: ZhankaiConfig,
+    baseDir: string,
+    repoName: string,
+    sessionId: string = ""
+  ) {
+    this.config = { ...config };
+    this.baseDir = baseDir;
+    this.repoName = repoName;
+    this.zhankaiDir = path.join(baseDir, constants.ZHANKAI_DIR);
+    this.sessionId = sessionId;
+    this.queryIds = [];
+  }
+
+  /**
+   * Generates the context and runs the loop until the user exits
+   */
+  async start(): Promise<void> {
+    this.zhankaiDir = await exportUtils.setupOutputDirectory(this.baseDir);
+    await this.refreshContext();
+
+    logger.info(
+      `${colors.BOLD}Chatting about ${this.repoName}.${colors.RESET} Type /help for commands, /exit to leave.`
+    );
+
+    while (true) {
+      const response = await prompts({
+        type: "text",
+        name: "input",
+        message: "you",
+      });
+
+      // Ctrl+C cancels the prompt
+      if (response.input === undefined) break;
+
+      const input = response.input.trim();
+      if (!input) continue;
+
+      if (input.startsWith("/")) {
+        if (!(await this.handleCommand(input))) break;
+      } else {
+        await this.sendPrompt(input);
+      }
+    }
+
+    logger.info("Bye!");
+  }
+
+  /**
+   * Regenerates the repository context sent with every prompt
+   */
+  private async refreshContext(): Promise<void> {
+    const outputPath = path.join(
+      this.zhankaiDir,
+      `${this.repoName}_app_description${
+        writerUtils.createWriter(this.config.format).extension
+      }`
+    );
+    this.config.output = await fileUtils.getUniqueFilename(outputPath);
+
+    const ignoreRules = await fileUtils.getIgnoreRules(
+      this.baseDir,
+      this.config.exclude,
+      this.config.respectGit,
+      this.config.defaultIgnores
+    );
+    await exportUtils.generateRepoDocumentation(
+      this.baseDir,
+      this.repoName,
+      this.config,
+      ignoreRules
+    );
+  }
+
+  /**
+   * Handles a slash command
+   * @returns false if the chat should end
+   */
+  private async handleCommand(input: string): Promise<boolean> {
+    const [command] = input.split(/\s+/);
+
+    switch (command) {
+      case "/exit":
+      case "/quit":
+        return false;
+
+      case "/refresh":
+        await this.refreshContext();
+        return true;
+
+      case "/files":
+        await this.listChangedFiles();
+        return true;
+
+      case "/undo":
+        if (await journalUtils.undo()) {
+          logger.info(
+            `${colors.FG_GREEN}✓ Reverted the latest query${colors.RESET}`
+          );
+        }
+        return true;
+
+      case "/new":
+        this.sessionId = "";
+        await sessionUtils.clearCurrentSession();
+        logger.info("Next prompt will start a new session");
+        return true;
+
+      case "/help":
+        for (const [name, description] of Object.entries(CHAT_COMMANDS)) {
+          logger.info(`${colors.BOLD}${name}${colors.RESET} ${description}`);
+        }
+        return true;
+
+      default:
+        logger.warn(`Unknown command: ${command}. Type /help for commands.`);
+        return true;
+    }
+  }
+
+  /**
+   * Sends a prompt to the Rukh API and shows the answer
+   */
+  private async sendPrompt(input: string): Promise<void> {
+    const queryId = journalUtils.createQueryId();
+    this.queryIds.push(queryId);
+
+    // The answer is printed before any file update is offered for review
+    await apiUtils.sendQueryToRukh(
+      input,
+      this.config.output,
+      this.config.debug || false,
+      this.config.timeout,
+      {
+        queryId,
+        sessionId: this.sessionId,
+        printAnswer: true,
+        verify: this.config.verify,
+        maxRepairs: this.config.maxRepairs,
+        stream: this.config.stream,
+        provider: this.config.provider,
+        model: this.config.model,
+        providerUrl: this.config.providerUrl,
+        rukhApiUrl: this.config.rukhApiUrl,
+        maxRetries: this.config.maxRetries,
+        retryDelay: this.config.retryDelay,
+        providers: this.config.providers,
+      }
+    );
+
+    // Follow-up prompts continue the session the API answered in
+    this.sessionId =
+      (await sessionUtils.getCurrentSessionId()) || this.sessionId;
+  }
+
+  /**
+   * Lists the files changed by the queries of this chat
+   */
+  private async listChangedFiles(): Promise<void> {
+    const lines: string[] = [];
+
+    for (const queryId of this.queryIds) {
+      const journal = await journalUtils.getJournal(queryId);
+      if (!journal) continue;
+
+      for (const entry of journal.entries) {
+        const status = journal.undoneAt
+          ? "undone"
+          : entry.created
+          ? "created"
+          : "modified";
+        lines.push(`  ${entry.fileName} (${status})`);
+      }
+    }
+
+    if (lines.length === 0) {
+      logger.info("No files changed during this chat");
+      return;
+    }
+
+    logger.info(`Files changed during this chat:\n${lines.join("\n")}`);
+  }
+}
@@ -0,0 +1,81 @@
+import { markdownUtils } from "../utils/markdown";
+
+/**
+ * Prints a markdown answer in the terminal as it streams, formatting each
+ * line once it is complete
+ */
+export class StreamPrinter {
+  private pending: string;
+  private inCodeBlock: boolean;
+  private started: boolean;
+  private ended: boolean;
+
+  /**
+   * Creates a new StreamPrinter instance
+   */
+  constructor() {
+    this.pending = "";
+    this.inCodeBlock = false;
+    this.started = false;
+    this.ended = false;
+  }
+
+  /**
+   * Whether part of the answer was printed
+   */
+  get hasPrinted(): boolean {
+    return this.started;
+  }
+
+  /**
+   * Prints the complete lines of a chunk of the answer, and keeps the last
+   * partial line for the next chunk
+   * @param text Chunk of the answer
+   */
+  write(text: string): void {
+    if (!this.started) {
+      this.started = true;
+      process.stdout.write("\n");
+    }
+
+    const lines = (this.pending + text).split("\n");
+    this.pending = lines.pop() || "";
+
+    for (const line of lines) {
+      process.stdout.write(`${this.formatLine(line)}\n`);
+    }
+  }
+
+  /**
+   * Prints the rest of the answer
+   */
+  end(): void {
+    if (!this.started || this.ended) return;
+
+    if (this.pending) {
+      process.stdout.write(`${this.formatLine(this.pending)}\n`);
+      this.pending = "";
+    }
+
+    process.stdout.write("\n");
+    this.ended = true;
+  }
+
+  /**
+   * Formats a line like markdownUtils.formatMarkdownForTerminal, keeping
+   * track of code blocks across lines
+   */
+  private formatLine(line: string): string {
+    if (line.startsWith("```")) {
+      this.inCodeBlock = !this.inCodeBlock;
+      return "";
+    }
+
+    if (this.inCodeBlock) {
+      return `    ${line}`;
+    }
+
+    // The formatter wraps its output in newlines
+    return markdownUtils.formatMarkdownForTerminal(line).slice(1, -1);
+  }
+}
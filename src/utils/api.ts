@@ -1,14 +1,127 @@
 import fs from "fs/promises";
 import path from "path";
-import { writeFileSync, existsSync, mkdirSync } from "fs";
+import crypto from "crypto";
+import { writeFileSync, existsSync, mkdirSync, readFileSync, rmSync } from "fs";
 import { constants } from "../config/constants";
 import { logger } from "../ui/logger";
 import { fileUtils } from "./file";
 import { markdownUtils } from "./markdown";
 import { TerminalLoader } from "../ui/loader";
-import { RukhResponse, FileToUpdate } from "./types";
+import { StreamPrinter } from "../ui/stream-printer";
+import {
+  RukhResponse,
+  FileChangeSpec,
+  FileToUpdate,
+  QueryOptions,
+  JournalEntry,
+  HttpRetry,
+} from "./types";
 import { walletUtils } from "./wallet";
 import { githubAuthUtils } from "./github-auth";
+import { reviewUtils } from "./review";
+import { journalUtils } from "./journal";
+import { pathPolicyUtils } from "./path-policy";
+import { patchUtils } from "./patch";
+import { responseUtils } from "./response";
+import { proposalUtils } from "./proposal";
+import { gitUtils } from "./git";
+import { providerUtils } from "./providers";
+import { redactionUtils } from "./redaction";
+import { sessionUtils } from "./session";
+import { verifyUtils } from "./verify";
+import { streamUtils } from "./stream";
+import { httpUtils } from "./http";
+
+/** Content types of the repository context sent to Rukh, by extension */
+const CONTEXT_MIME_TYPES: Record<string, string> = {
+  ".md": "text/markdown",
+  ".json": "application/json",
+  ".xml": "application/xml",
+};
+
+/**
+ * Creates the missing directories holding a file
+ * @returns The created directories relative to baseDir, outermost first, so
+ * undo can remove them
+ */
+const createParentDirs = (baseDir: string, filePath: string): string[] => {
+  const dirPath = path.dirname(filePath);
+  const createdDirs: string[] = [];
+
+  for (let dir = dirPath; !existsSync(dir); dir = path.dirname(dir)) {
+    createdDirs.unshift(path.relative(baseDir, dir));
+    if (path.dirname(dir) === dir) break;
+  }
+
+  if (createdDirs.length > 0) {
+    mkdirSync(dirPath, { recursive: true });
+  }
+
+  return createdDirs;
+};
+
+/**
+ * Computes the SHA-256 of a file content, recorded so undo can tell whether
+ * the file changed since
+ */
+const hashContent = (content: Buffer | string): string =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+/**
+ * Lists the paths a file update touches, both paths of a rename
+ */
+const getTouchedFiles = (fileSpec: FileToUpdate): string[] =>
+  fileSpec.newFileName
+    ? [fileSpec.fileName, fileSpec.newFileName]
+    : [fileSpec.fileName];
+
+/**
+ * Describes a retry of a failed request in the loader message
+ */
+const describeRetry = (
+  { attempt, delay, reason }: HttpRetry,
+  maxAttempts: number
+): string =>
+  `Request failed (${reason}). Retrying in ${Math.ceil(
+    delay / 1000
+  )} seconds... (attempt ${attempt}/${maxAttempts})`;
+
+/**
+ * Reads an answer Rukh streams as server-sent events: "delta" events carry
+ * {"text"} chunks of the output, the "done" event the full response and
+ * "error" events a {"message"}
+ * @returns The full response as JSON
+ */
+const readRukhStream = async (
+  response: Response,
+  onText: (text: string) => void
+): Promise<string> => {
+  let output = "";
+  let data = null as RukhResponse | null;
+
+  await streamUtils.readEvents(response, ({ event, data: eventData }) => {
+    if (event === "delta") {
+      const { text } = JSON.parse(eventData);
+      if (typeof text === "string" && text) {
+        output += text;
+        onText(text);
+      }
+    } else if (event === "done") {
+      data = JSON.parse(eventData);
+    } else if (event === "error") {
+      throw new Error(
+        `Rukh API stream failed: ${JSON.parse(eventData).message}`
+      );
+    }
+  });
+
+  if (!data) {
+    throw new Error("Rukh API stream ended before the answer was complete");
+  }
+
+  // The output may be left out of the final response
+  return JSON.stringify({ output, ...data });
+};
 
 /**
  * API utilities namespace
@@ -16,8 +129,11 @@ import { githubAuthUtils } from "./github-auth";
 export const apiUtils = {
   /**
    * Fetches a SIWE challenge from Rukh API
+   * @param rukhApiUrl URL of the Rukh API, whose host gives the challenge
    */
-  async fetchSiweChallenge(): Promise<{
+  async fetchSiweChallenge(
+    rukhApiUrl: string = constants.RUKH_API_URL
+  ): Promise<{
     message: string;
     nonce: string;
   } | null> {
@@ -28,7 +144,7 @@ export const apiUtils = {
       loader.start();
 
       const response = await fetch(
-        `${constants.RUKH_API_URL.replace("/ask", "")}/siwe/challenge`,
+        `${rukhApiUrl.replace("/ask", "")}/siwe/challenge`,
         {
           method: "GET",
           headers: {
@@ -101,268 +217,306 @@ export const apiUtils = {
   },
 
   /**
-   * Sends a query to the Rukh API and handles the response
+   * Sends the query and exported file to the Rukh API, with SIWE authentication and retries
    */
-  async sendQueryToRukh(
+  async requestRukh(
     query: string,
     filePath: string,
+    fileContent: string,
     debug: boolean,
-    timeout: number = constants.DEFAULT_TIMEOUT_MS
-  ): Promise<string> {
+    timeout: number,
+    options: QueryOptions,
+    onText?: (text: string) => void
+  ): Promise<RukhResponse> {
+    const rukhApiUrl = options.rukhApiUrl || constants.RUKH_API_URL;
+    const maxRetries = options.maxRetries ?? constants.MAX_RETRIES;
+
+    // Get SIWE authentication data
+    let authData = null;
     try {
-      // Validate input file access
-      try {
-        await fs.access(filePath);
-      } catch (error) {
-        logger.error("✗ Error accessing file:", error);
-        throw new Error(`Cannot access file at path: ${filePath}`);
+      // Fetch challenge
+      const challenge = await this.fetchSiweChallenge(rukhApiUrl);
+      if (!challenge) {
+        logger.warn(
+          "Failed to get authentication challenge, proceeding without authentication"
+        );
+      } else {
+        // Sign challenge
+        const signatureData = await this.signChallengeWithGithubWallet(
+          challenge.message
+        );
+        if (signatureData) {
+          authData = {
+            githubUserName: signatureData.githubUsername,
+            nonce: challenge.nonce,
+            signature: signatureData.signature,
+          };
+          logger.info(
+            `Authenticated as GitHub user: ${signatureData.githubUsername}`
+          );
+          logger.debug("Auth data:", authData);
+        }
       }
+    } catch (authError) {
+      logger.warn(
+        "Authentication error, proceeding without authentication:",
+        authError
+      );
+    }
 
-      // Read the file content
-      const fileContent = await fs.readFile(filePath, "utf-8");
+    // Prepare form data
+    const formData = new FormData();
+    formData.append("message", query);
+    formData.append("model", "anthropic");
+    formData.append("sessionId", options.sessionId || "");
+    formData.append(
+      "walletAddress",
+      authData ? await walletUtils.getWalletAddress() : ""
+    );
+    formData.append("context", "zhankai");
+
+    if (onText) {
+      formData.append("stream", "true");
+    }
+
+    // Add auth data if available
+    if (authData) {
+      formData.append("data", JSON.stringify(authData));
+    }
+
+    const fileName = path.basename(filePath);
+    const mimeType =
+      CONTEXT_MIME_TYPES[path.extname(fileName).toLowerCase()] ||
+      "text/markdown";
+
+    // Handle file attachment
+    if (typeof File === "undefined") {
       if (debug) {
-        logger.debug("File content length:", fileContent.length);
         logger.debug(
-          "File content preview:",
-          fileContent.slice(0, 200) + "..."
+          "Running in Node.js environment - using Blob for file upload"
         );
       }
+      const blob = new Blob([fileContent], { type: mimeType });
+      formData.append("file", blob, fileName);
+    } else {
+      const file = new File([fileContent], fileName, {
+        type: mimeType,
+      });
+      formData.append("file", file);
+    }
 
-      // Get SIWE authentication data
-      let authData = null;
-      try {
-        // Fetch challenge
-        const challenge = await this.fetchSiweChallenge();
-        if (!challenge) {
-          logger.warn(
-            "Failed to get authentication challenge, proceeding without authentication"
-          );
-        } else {
-          // Sign challenge
-          const signatureData = await this.signChallengeWithGithubWallet(
-            challenge.message
-          );
-          if (signatureData) {
-            authData = {
-              githubUserName: signatureData.githubUsername,
-              nonce: challenge.nonce,
-              signature: signatureData.signature,
-            };
-            logger.info(
-              `Authenticated as GitHub user: ${signatureData.githubUsername}`
-            );
-            logger.debug("Auth data:", authData);
-          }
-        }
-      } catch (authError) {
-        logger.warn(
-          "Authentication error, proceeding without authentication:",
-          authError
-        );
-      }
+    const loader = new TerminalLoader(
+      `Sending request to ${rukhApiUrl}`
+    );
+    loader.start();
+
+    let response: Response;
+    let responseBody: string;
+
+    // Ctrl+C cancels the request, retries included
+    const controller = new AbortController();
+    const stopHandlingInterrupt = streamUtils.handleInterrupt((error) =>
+      controller.abort(error)
+    );
 
-      // Prepare form data
-      const formData = new FormData();
-      formData.append("message", query);
-      formData.append("model", "anthropic");
-      formData.append("sessionId", "");
-      formData.append(
-        "walletAddress",
-        authData ? await walletUtils.getWalletAddress() : ""
+    try {
+      response = await httpUtils.request(
+        rukhApiUrl,
+        {
+          method: "POST",
+          headers: {
+            accept: onText
+              ? "text/event-stream, application/json"
+              : "application/json",
+          },
+          body: formData,
+        },
+        {
+          maxAttempts: maxRetries,
+          retryDelay: options.retryDelay ?? constants.RETRY_DELAY,
+          maxRetryDelay: constants.MAX_RETRY_DELAY,
+          deadline: timeout,
+          // Retried queries carry the same key so Rukh answers them once
+          idempotencyKey: crypto.randomUUID(),
+          signal: controller.signal,
+          onRetry: (retry) =>
+            loader.updateMessage(describeRetry(retry, maxRetries)),
+        }
       );
-      formData.append("context", "zhankai");
 
-      // Add auth data if available
-      if (authData) {
-        formData.append("data", JSON.stringify(authData));
+      if (response.status === 401) {
+        throw new Error(
+          "Authentication failed. Please activate sponsorship to W3HC at https://github.com/sponsors/w3hc"
+        );
       }
 
-      const fileName = path.basename(filePath);
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorDetails = "Unknown error";
 
-      // Handle file attachment
-      if (typeof File === "undefined") {
-        if (debug) {
-          logger.debug(
-            "Running in Node.js environment - using Blob for file upload"
-          );
+        try {
+          // Try to parse as JSON
+          const errorJson = JSON.parse(errorText);
+          errorDetails =
+            errorJson.message || errorJson.error || JSON.stringify(errorJson);
+        } catch {
+          // If not JSON, use the text
+          errorDetails = errorText.slice(0, 200); // Limit error text length
         }
-        const blob = new Blob([fileContent], { type: "text/markdown" });
-        formData.append("file", blob, fileName);
-      } else {
-        const file = new File([fileContent], fileName, {
-          type: "text/markdown",
-        });
-        formData.append("file", file);
+
+        throw new Error(
+          `API request failed with status ${response.status}: ${errorDetails}`
+        );
       }
 
-      const loader = new TerminalLoader(
-        `Sending request to ${constants.RUKH_API_URL}`
-      );
-      loader.start();
+      // Process successful response, printing streamed answers as they arrive
+      responseBody =
+        onText && streamUtils.isEventStream(response)
+          ? await readRukhStream(response, (text) => {
+              loader.stop();
+              onText(text);
+            })
+          : await response.text();
+    } finally {
+      stopHandlingInterrupt();
+      loader.stop();
+    }
 
-      // Retry logic for API requests
-      let response;
-      let attemptCount = 0;
+    // Save raw response for debugging
+    const baseDir = process.cwd();
+    const zhankaiDir = path.join(baseDir, constants.ZHANKAI_DIR);
+    const rawResponsePath = path.join(zhankaiDir, "raw_response.txt");
 
-      while (attemptCount < constants.MAX_RETRIES) {
-        try {
-          loader.updateMessage(
-            `Sending request to ${constants.RUKH_API_URL}${
-              attemptCount > 0
-                ? ` (attempt ${attemptCount + 1}/${constants.MAX_RETRIES})`
-                : ""
-            }`
-          );
+    try {
+      await fs.writeFile(rawResponsePath, responseBody, "utf-8");
+      if (debug) {
+        logger.debug(`Raw response saved to ${rawResponsePath}`);
+      }
+    } catch (writeError) {
+      logger.error("Failed to save raw response:", writeError);
+    }
 
-          // Create abort controller for timeout
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), timeout);
-
-          response = await fetch(constants.RUKH_API_URL, {
-            method: "POST",
-            headers: {
-              accept: "application/json",
-            },
-            body: formData,
-            signal: controller.signal,
-          });
+    let data: RukhResponse;
+    try {
+      data = JSON.parse(responseBody);
+    } catch (e) {
+      logger.error("✗ Failed to parse JSON response:", e);
+      logger.debug("Raw response:", responseBody.slice(0, 1000) + "...");
+      throw new Error("Failed to parse API response as JSON");
+    }
 
-          // Clear the timeout
-          clearTimeout(timeoutId);
-
-          // If successful, break out of retry loop
-          if (response.ok) break;
-
-          // Handle specific error responses
-          if (response.status === 401) {
-            throw new Error(
-              "Authentication failed. Please activate sponsorship to W3HC at https://github.com/sponsors/w3hc"
-            );
-          }
-
-          if (response.status === 429) {
-            loader.updateMessage(
-              `Rate limit hit. Retrying in ${
-                constants.RETRY_DELAY / 1000
-              } seconds... (attempt ${attemptCount + 1}/${
-                constants.MAX_RETRIES
-              })`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, constants.RETRY_DELAY)
-            );
-            attemptCount++;
-            continue;
-          }
-
-          // For other errors, try to extract error details
-          const errorText = await response.text();
-          let errorDetails = "Unknown error";
-
-          try {
-            // Try to parse as JSON
-            const errorJson = JSON.parse(errorText);
-            errorDetails =
-              errorJson.message || errorJson.error || JSON.stringify(errorJson);
-          } catch {
-            // If not JSON, use the text
-            errorDetails = errorText.slice(0, 200); // Limit error text length
-          }
-
-          logger.error(`API error (${response.status}): ${errorDetails}`);
-
-          // Decide whether to retry based on status code
-          if ([500, 502, 503, 504].includes(response.status)) {
-            loader.updateMessage(
-              `Server error. Retrying... (${attemptCount + 1}/${
-                constants.MAX_RETRIES
-              })`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, constants.RETRY_DELAY)
-            );
-            attemptCount++;
-          } else {
-            // For other status codes, don't retry
-            throw new Error(
-              `API request failed with status ${response.status}: ${errorDetails}`
-            );
-          }
-        } catch (fetchError: any) {
-          // Network errors or timeouts
-          const isTimeout =
-            fetchError.name === "AbortError" ||
-            fetchError.message?.includes("timeout") ||
-            fetchError.message?.includes("aborted");
-
-          loader.updateMessage(
-            `Request attempt ${attemptCount + 1} failed: ${
-              isTimeout ? "Timeout" : fetchError.message
-            }`
-          );
+    if (debug) {
+      logger.debug("\nResponse details:");
+      logger.debug("- Status:", response.status);
 
-          if (attemptCount < constants.MAX_RETRIES - 1) {
-            loader.updateMessage(
-              `Retrying in ${constants.RETRY_DELAY / 1000} seconds...`
-            );
-            await new Promise((resolve) =>
-              setTimeout(resolve, constants.RETRY_DELAY)
-            );
-            attemptCount++;
-          } else {
-            throw new Error(
-              `Failed to connect to API after ${constants.MAX_RETRIES} attempts: ${fetchError.message}`
-            );
-          }
-        }
-      }
+      // Fix for Headers.entries() TypeScript error
+      // Use a compatible way to log headers
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+      logger.debug("- Headers:", headers);
 
-      // If we've exited the loop without a response, all retries have failed
-      if (!response || !response.ok) {
-        throw new Error("All API request attempts failed");
-      }
+      logger.debug("- Response data keys:", Object.keys(data));
+    }
 
-      // Process successful response
-      const responseBody = await response.text();
+    return data;
+  },
 
-      // Save raw response for debugging
-      const baseDir = process.cwd();
-      const zhankaiDir = path.join(baseDir, constants.ZHANKAI_DIR);
-      const rawResponsePath = path.join(zhankaiDir, "raw_response.txt");
+  /**
+   * Sends a query to the Rukh API, or to another provider, and handles the response
+   */
+  async sendQueryToRukh(
+    query: string,
+    filePath: string,
+    debug: boolean,
+    timeout: number = constants.DEFAULT_TIMEOUT_MS,
+    options: QueryOptions = {}
+  ): Promise<string> {
+    // Streamed answers are printed as they arrive
+    const printer = options.stream ? new StreamPrinter() : null;
+    const onText = printer ? (text: string) => printer.write(text) : undefined;
 
+    try {
+      // Validate input file access
       try {
-        await fs.writeFile(rawResponsePath, responseBody, "utf-8");
-        if (debug) {
-          logger.debug(`Raw response saved to ${rawResponsePath}`);
-        }
-      } catch (writeError) {
-        logger.error("Failed to save raw response:", writeError);
+        await fs.access(filePath);
+      } catch (error) {
+        logger.error("✗ Error accessing file:", error);
+        throw new Error(`Cannot access file at path: ${filePath}`);
       }
 
-      let data: RukhResponse;
-      try {
-        data = JSON.parse(responseBody);
-      } catch (e) {
-        logger.error("✗ Failed to parse JSON response:", e);
-        logger.debug("Raw response:", responseBody.slice(0, 1000) + "...");
-        throw new Error("Failed to parse API response as JSON");
+      // Read the file content
+      const fileContent = await fs.readFile(filePath, "utf-8");
+      if (debug) {
+        logger.debug("File content length:", fileContent.length);
+        logger.debug(
+          "File content preview:",
+          fileContent.slice(0, 200) + "..."
+        );
       }
 
-      if (debug) {
-        logger.debug("\nResponse details:");
-        logger.debug("- Status:", response.status);
-
-        // Fix for Headers.entries() TypeScript error
-        // Use a compatible way to log headers
-        const headers: Record<string, string> = {};
-        response.headers.forEach((value, key) => {
-          headers[key] = value;
-        });
-        logger.debug("- Headers:", headers);
-
-        logger.debug("- Response data keys:", Object.keys(data));
+      // The export redacts secrets, anything left was added some other way
+      const secrets = [
+        ...redactionUtils.findSecrets(query),
+        ...redactionUtils.findSecrets(fileContent),
+      ];
+      if (secrets.length > 0) {
+        throw new Error(
+          `Refusing to send unredacted secrets (${redactionUtils.summarize(
+            secrets
+          )}). Remove them from the query or from ${filePath}`
+        );
+      }
+
+      let data: RukhResponse;
+      const provider = options.provider || constants.DEFAULT_PROVIDER;
+
+      if (provider === "rukh") {
+        data = await this.requestRukh(
+          query,
+          filePath,
+          fileContent,
+          debug,
+          timeout,
+          options,
+          onText
+        );
+      } else {
+        const loader = new TerminalLoader(`Sending request to ${provider}`);
+        loader.start();
+
+        try {
+          data = await providerUtils.sendQuery(provider, {
+            query,
+            context: fileContent,
+            model: options.model,
+            url: options.providerUrl,
+            timeout,
+            providers: options.providers,
+            maxRetries: options.maxRetries,
+            retryDelay: options.retryDelay,
+            onRetry: (retry) =>
+              loader.updateMessage(
+                describeRetry(
+                  retry,
+                  options.maxRetries ?? constants.MAX_RETRIES
+                )
+              ),
+            onText:
+              onText &&
+              ((text) => {
+                loader.stop();
+                onText(text);
+              }),
+          });
+        } finally {
+          loader.stop();
+        }
       }
 
+      printer?.end();
+
       // Extract the content from the response
       const responseContent = data.output || data.answer || "";
 
@@ -374,6 +528,7 @@ export const apiUtils = {
 
       // Prepare to save the response to a file
       const baseQueryFilename = "query.md";
+      const zhankaiDir = path.join(process.cwd(), constants.ZHANKAI_DIR);
       const queryFilePath = path.join(zhankaiDir, baseQueryFilename);
       const uniqueQueryFilename = await fileUtils.getUniqueFilename(
         queryFilePath
@@ -413,20 +568,52 @@ export const apiUtils = {
         }
       }
 
+      // Keep track of the conversation so follow-up queries have context
+      const sessionId = data.sessionId || options.sessionId;
+      if (sessionId) {
+        try {
+          await sessionUtils.recordTurn(sessionId, query, uniqueQueryFilename);
+          logger.info(`Session: ${sessionId}`);
+        } catch (sessionError) {
+          logger.warn("Failed to record session:", sessionError);
+        }
+      }
+
       // Format the response for terminal output
       const formattedResponse =
         markdownUtils.formatMarkdownForTerminal(responseContent);
 
-      // Process the API response if it contains file specifications
-      const processResponsePromise = this.processResponseForFileUpdates(data);
-
-      await processResponsePromise;
+      // Answers that were not streamed are printed at once
+      if ((options.printAnswer || options.stream) && !printer?.hasPrinted) {
+        console.log(formattedResponse);
+      }
 
-      loader.stop();
+      // Process the API response if it contains file specifications
+      const applied = await this.processResponseForFileUpdates(data, {
+        query,
+        ...options,
+      });
+
+      if (applied.length > 0 && options.verify && options.verify.length > 0) {
+        await this.verifyAppliedChanges(
+          filePath,
+          debug,
+          timeout,
+          { ...options, sessionId },
+          applied
+        );
+      }
 
       // Return the formatted response
       return formattedResponse;
     } catch (error) {
+      printer?.end();
+
+      if (streamUtils.isCancelled(error)) {
+        logger.warn("Query cancelled, no file changes were applied");
+        return "Query cancelled";
+      }
+
       // Handle all errors
       logger.error("\n✗ Error sending query to Rukh API:", error);
       if (error instanceof Error) {
@@ -436,120 +623,471 @@ export const apiUtils = {
     }
   },
 
+  /**
+   * Runs the checks of applied file changes and, while they fail and repair
+   * attempts are left, asks the model for a fix in the same session
+   * @param filePath Export sent with the repair queries
+   * @param applied Changes applied by the latest attempt, completed by the
+   * journal of the query with the earlier ones
+   */
+  async verifyAppliedChanges(
+    filePath: string,
+    debug: boolean,
+    timeout: number,
+    options: QueryOptions,
+    applied: JournalEntry[] = []
+  ): Promise<void> {
+    const results = await verifyUtils.runChecks(options.verify || []);
+    verifyUtils.printSummary(results);
+
+    if (results.every((result) => result.passed)) {
+      return;
+    }
+
+    const repairsLeft = options.maxRepairs || 0;
+    if (repairsLeft === 0) {
+      logger.warn(
+        `Checks failed. Fix the errors, or run 'zhankai undo${
+          options.queryId ? ` ${options.queryId}` : ""
+        }' to revert the changes.`
+      );
+      return;
+    }
+
+    logger.info(
+      `Asking for a fix, ${
+        repairsLeft - 1
+      } repair attempt(s) left after this one`
+    );
+
+    // Repairs are journaled under the same query, so undo reverts them too
+    await this.sendQueryToRukh(
+      verifyUtils.createRepairQuery(
+        results,
+        await this.readChangedFiles(options.queryId, applied)
+      ),
+      filePath,
+      debug,
+      timeout,
+      { ...options, maxRepairs: repairsLeft - 1 }
+    );
+  },
+
+  /**
+   * Reads the current content of the files changed by a query, secrets
+   * redacted, for the repair queries
+   * @param applied Changes applied by the latest attempt, used if the query
+   * has no journal
+   */
+  async readChangedFiles(
+    queryId: string | undefined,
+    applied: JournalEntry[]
+  ): Promise<{ fileName: string; content: string }[]> {
+    const journal = queryId ? await journalUtils.getJournal(queryId) : null;
+    const fileNames = new Set(
+      (journal?.entries || applied).map((entry) => entry.fileName)
+    );
+    const files: { fileName: string; content: string }[] = [];
+
+    for (const fileName of fileNames) {
+      try {
+        const { content } = redactionUtils.redact(
+          await fs.readFile(path.join(process.cwd(), fileName), "utf-8"),
+          fileName
+        );
+        files.push({ fileName, content });
+      } catch {
+        // Deleted files have no content left to fix
+      }
+    }
+
+    return files;
+  },
+
   /**
    * Processes API response for file updates
+   * @returns The journal entries of the file changes applied to the working
+   * tree, empty for dry runs and branch mode
    */
-  async processResponseForFileUpdates(data: RukhResponse): Promise<void> {
+  async processResponseForFileUpdates(
+    data: RukhResponse,
+    options: QueryOptions = {}
+  ): Promise<JournalEntry[]> {
     try {
-      // First check the filesToUpdate field if it exists
-      if (
-        data.filesToUpdate &&
-        Array.isArray(data.filesToUpdate) &&
-        data.filesToUpdate.length > 0
-      ) {
-        logger.info(
-          `Found ${data.filesToUpdate.length} file(s) to update from filesToUpdate field...\n`
-        );
+      const { fileSpecs, failed } = await patchUtils.resolveFileChanges(
+        this.extractFileSpecs(data)
+      );
 
-        for (const fileSpec of data.filesToUpdate) {
-          await this.updateFile(fileSpec);
+      if (failed.length > 0) {
+        logger.warn(`Could not apply ${failed.length} part(s) of patches:`);
+        for (const { fileName, index, reason } of failed) {
+          logger.warn(
+            `  ✗ ${fileName}${index > 0 ? ` #${index}` : ""}: ${reason}`
+          );
         }
-
-        logger.info("Done! ✅");
-        return;
       }
 
-      // Then try to parse the output as JSON
-      if (data.output && typeof data.output === "string") {
-        try {
-          // Try to extract file specs if they're in JSON format
-          // This regex looks for an array of objects with fileName and fileContent properties
-          const jsonRegex =
-            /\[\s*\{\s*"fileName"\s*:\s*"[^"]+"\s*,\s*"fileContent"\s*:\s*"(?:\\"|[^"])+"\s*\}\s*(?:,\s*\{\s*"fileName"\s*:\s*"[^"]+"\s*,\s*"fileContent"\s*:\s*"(?:\\"|[^"])+"\s*\}\s*)*\]/;
-          const match = data.output.match(jsonRegex);
-
-          if (match) {
-            try {
-              const jsonOutput = JSON.parse(match[0]);
-              if (Array.isArray(jsonOutput) && jsonOutput.length > 0) {
-                logger.info(
-                  `\nFound ${jsonOutput.length} file(s) to create/update from JSON in output...\n`
-                );
-
-                for (const spec of jsonOutput) {
-                  if (spec.fileName && spec.fileContent) {
-                    await this.updateFile(spec);
-                  }
-                }
-
-                logger.info("Done! ✅");
-                return;
-              }
-            } catch (err) {
-              logger.error("Failed to parse JSON in output:", err);
-            }
-          }
-
-          // If not found with regex, try direct JSON parse
-          const jsonOutput = JSON.parse(data.output);
-          if (Array.isArray(jsonOutput)) {
-            logger.info(
-              `\nFound ${jsonOutput.length} file(s) to create/update from API response...\n`
-            );
-
-            for (const spec of jsonOutput) {
-              if (!spec.fileName || typeof spec.fileName !== "string") {
-                logger.error(
-                  "❌ Error: A file specification is missing the fileName property"
-                );
-                continue;
-              }
-
-              if (!spec.fileContent || typeof spec.fileContent !== "string") {
-                logger.error(
-                  `❌ Error: File specification for ${spec.fileName} is missing the fileContent property`
-                );
-                continue;
-              }
-
-              await this.updateFile(spec);
-            }
-
-            logger.info("Done! ✅");
-          }
-        } catch (error) {
-          // Not valid JSON or not an array - this is normal for most responses
-          logger.debug(
-            "Response is not a valid JSON array, continuing with normal processing."
-          );
+      if (fileSpecs.length > 0) {
+        const summary = data.output || data.answer || "";
+
+        if (options.dryRun) {
+          await this.proposeFileUpdates(fileSpecs, options, summary);
+        } else {
+          return await this.applyFileUpdates(fileSpecs, options, summary);
         }
       }
     } catch (error) {
       logger.error("Error processing API response for file updates:", error);
     }
+
+    return [];
   },
 
   /**
-   * Updates a file based on specifications from API response
+   * Extracts file specifications from an API response, reporting the ones
+   * that do not follow the response schema
    */
-  async updateFile(fileSpec: FileToUpdate): Promise<void> {
-    const filePath = path.join(process.cwd(), fileSpec.fileName);
-    const dirPath = path.dirname(filePath);
+  extractFileSpecs(data: RukhResponse): FileChangeSpec[] {
+    const { fileSpecs, issues } = responseUtils.parseFileChanges(data);
+
+    if (issues.length > 0) {
+      logger.error(
+        `✗ Ignored ${issues.length} invalid part(s) of the API response:`
+      );
+      for (const { path: at, message } of issues) {
+        logger.error(`  ✗ ${at}: ${message}`);
+      }
+    }
+
+    if (fileSpecs.length === 0) {
+      logger.debug(
+        "No file changes found in the response, continuing with normal processing."
+      );
+      return [];
+    }
+
+    logger.info(`Found ${fileSpecs.length} file(s) to update...\n`);
+    for (const { fileName, rationale } of fileSpecs) {
+      if (rationale) logger.info(`  ${fileName}: ${rationale}`);
+    }
+
+    return fileSpecs;
+  },
+
+  /**
+   * Checks proposed file updates against the path policy, reporting the
+   * rejected ones
+   * @returns The file updates that may be written
+   */
+  filterAllowedUpdates(fileSpecs: FileToUpdate[]): FileToUpdate[] {
+    const { allowed, rejected } = pathPolicyUtils.filterFileUpdates(fileSpecs);
+
+    if (rejected.length > 0) {
+      logger.warn(
+        `Rejected ${rejected.length} file update(s) targeting unsafe paths:`
+      );
+      for (const { fileName, reason } of rejected) {
+        logger.warn(`  ✗ ${fileName}: ${reason}`);
+      }
+    }
+
+    return allowed;
+  },
+
+  /**
+   * Saves proposed file updates in zhankai/proposals without touching the
+   * working tree, to be applied later with zhankai apply
+   * @param summary Output of the API, used in commit messages in branch mode
+   */
+  async proposeFileUpdates(
+    fileSpecs: FileToUpdate[],
+    options: QueryOptions = {},
+    summary: string = ""
+  ): Promise<void> {
+    const allowed = this.filterAllowedUpdates(fileSpecs);
+
+    if (allowed.length === 0) {
+      return;
+    }
+
+    const proposal = await proposalUtils.saveProposal(
+      options.queryId || journalUtils.createQueryId(),
+      allowed,
+      options.query,
+      summary
+    );
+
+    logger.info(
+      `Dry run: ${allowed.length} file update(s) proposed, nothing was written`
+    );
+    proposalUtils.printProposal(proposal);
+    logger.info(
+      `Proposed contents saved in ${path.join(
+        constants.ZHANKAI_DIR,
+        constants.PROPOSALS_DIR,
+        proposal.id
+      )}. Run 'zhankai apply ${proposal.id}' to apply them.`
+    );
+  },
+
+  /**
+   * Checks proposed file updates against the path policy, reviews them with
+   * the user, then writes the accepted ones
+   * @param summary Output of the API, used in commit messages in branch mode
+   * @returns The journal entries of the changes written to the working tree
+   */
+  async applyFileUpdates(
+    fileSpecs: FileToUpdate[],
+    options: QueryOptions = {},
+    summary: string = ""
+  ): Promise<JournalEntry[]> {
+    const allowed = this.filterAllowedUpdates(fileSpecs);
+
+    if (allowed.length === 0) {
+      return [];
+    }
+
+    const accepted = options.autoApprove
+      ? allowed
+      : await reviewUtils.reviewFileUpdates(allowed);
+
+    if (options.branch) {
+      await this.applyOnBranch(accepted, options, summary);
+      return [];
+    }
+
+    const entries: JournalEntry[] = [];
+    for (const fileSpec of accepted) {
+      const entry = await this.updateFile(fileSpec);
+      if (entry) entries.push(entry);
+    }
+
+    if (entries.length > 0) {
+      const queryId = options.queryId || journalUtils.createQueryId();
+      await journalUtils.recordChanges(queryId, entries, options.query);
+      logger.info(
+        `Changes recorded as query ${queryId}. Run 'zhankai undo ${queryId}' to revert them.`
+      );
+    }
+
+    if (accepted.length < allowed.length) {
+      logger.info(
+        `Applied ${accepted.length} of ${allowed.length} proposed file update(s)`
+      );
+    }
+
+    logger.info("Done! ✅");
+    return entries;
+  },
+
+  /**
+   * Writes file updates on a new branch, commits them and returns to the
+   * original branch, or commit when HEAD is detached, even if the commit fails
+   */
+  async applyOnBranch(
+    fileSpecs: FileToUpdate[],
+    options: QueryOptions,
+    summary: string
+  ): Promise<void> {
+    if (fileSpecs.length === 0) {
+      logger.info("No file updates to commit");
+      return;
+    }
 
-    // Create directory if it doesn't exist
-    if (!existsSync(dirPath)) {
-      mkdirSync(dirPath, { recursive: true });
+    if (!(await gitUtils.isGitRepository())) {
+      logger.error("Branch mode requires a git repository");
+      return;
     }
 
+    // Switching back would discard uncommitted work in files we overwrite
+    const fileNames = fileSpecs.flatMap(getTouchedFiles);
+    const changedFiles = await gitUtils.getChangedFiles(fileNames);
+    if (changedFiles.length > 0) {
+      logger.error(
+        `Cannot apply changes on a new branch, these files have uncommitted changes: ${changedFiles.join(
+          ", "
+        )}`
+      );
+      return;
+    }
+
+    const query = options.query || "";
+    const originalRef = await gitUtils.getCurrentRef();
+    const branchName = await gitUtils.createBranchName(query);
+
+    await gitUtils.createBranch(branchName);
+    logger.info(`Created branch ${branchName}`);
+
+    try {
+      const written: string[] = [];
+      for (const fileSpec of fileSpecs) {
+        if (await this.updateFile(fileSpec)) {
+          written.push(...getTouchedFiles(fileSpec));
+        }
+      }
+
+      const commitHash = await gitUtils.commitFiles(
+        written,
+        gitUtils.createCommitMessage(query, summary)
+      );
+
+      logger.info(
+        `Committed ${
+          written.length
+        } file(s) to ${branchName} (${commitHash.slice(0, 7)})`
+      );
+      logger.info(
+        `Run 'git checkout ${branchName}' to review them or 'git merge ${branchName}' to apply them.`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to commit changes on ${branchName}, leaving them in the working tree:`,
+        error
+      );
+    } finally {
+      // The new branch starts at the original commit, so uncommitted changes
+      // follow the checkout back
+      try {
+        await gitUtils.checkoutBranch(originalRef);
+      } catch (error) {
+        logger.error(
+          `Failed to switch back to ${originalRef}, still on ${branchName}:`,
+          error
+        );
+      }
+    }
+  },
+
+  /**
+   * Updates a file based on specifications from API response, writing,
+   * deleting or renaming it
+   * @returns A journal entry describing the change, or null if it failed
+   */
+  async updateFile(fileSpec: FileToUpdate): Promise<JournalEntry | null> {
+    if (fileSpec.operation === "delete") {
+      return this.deleteFile(fileSpec);
+    }
+    if (fileSpec.operation === "rename") {
+      return this.renameFile(fileSpec);
+    }
+
+    const baseDir = process.cwd();
+    const filePath = path.join(baseDir, fileSpec.fileName);
+    const createdDirs = createParentDirs(baseDir, filePath);
+
+    // Kept as bytes so binary files survive undo
+    const originalContent = existsSync(filePath)
+      ? readFileSync(filePath)
+      : null;
+
     // Write the file
     try {
       writeFileSync(filePath, fileSpec.fileContent);
       logger.info(`Created/Updated file: ${fileSpec.fileName}`);
+
+      return {
+        fileName: fileSpec.fileName,
+        created: originalContent === null,
+        originalContent: originalContent?.toString("base64") ?? null,
+        encoding: "base64",
+        newContent: fileSpec.fileContent,
+        newHash: hashContent(fileSpec.fileContent),
+        createdDirs,
+      };
     } catch (error) {
       logger.error(
         `❌ Error creating/updating file ${fileSpec.fileName}:`,
         error
       );
+      return null;
+    }
+  },
+
+  /**
+   * Deletes a file as proposed by the API
+   * @returns A journal entry keeping its content, or null if it failed
+   */
+  async deleteFile(fileSpec: FileToUpdate): Promise<JournalEntry | null> {
+    const filePath = path.join(process.cwd(), fileSpec.fileName);
+
+    if (!existsSync(filePath)) {
+      logger.warn(`Cannot delete ${fileSpec.fileName}, it does not exist`);
+      return null;
+    }
+
+    try {
+      const originalContent = readFileSync(filePath);
+      rmSync(filePath);
+      logger.info(`Deleted file: ${fileSpec.fileName}`);
+
+      return {
+        fileName: fileSpec.fileName,
+        created: false,
+        originalContent: originalContent.toString("base64"),
+        encoding: "base64",
+        newContent: "",
+        newHash: null,
+        createdDirs: [],
+        deleted: true,
+      };
+    } catch (error) {
+      logger.error(`❌ Error deleting file ${fileSpec.fileName}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Renames a file as proposed by the API, with git mv in a repository, then
+   * writes its new content
+   * @returns A journal entry for the new path, or null if it failed
+   */
+  async renameFile(fileSpec: FileToUpdate): Promise<JournalEntry | null> {
+    const baseDir = process.cwd();
+    const { fileName, newFileName } = fileSpec;
+
+    if (!newFileName) {
+      logger.error(`❌ Error renaming file ${fileName}: no new file name`);
+      return null;
+    }
+
+    const fromPath = path.join(baseDir, fileName);
+    const toPath = path.join(baseDir, newFileName);
+
+    if (!existsSync(fromPath)) {
+      logger.warn(`Cannot rename ${fileName}, it does not exist`);
+      return null;
+    }
+    if (existsSync(toPath)) {
+      logger.warn(`Cannot rename ${fileName}, ${newFileName} already exists`);
+      return null;
+    }
+
+    try {
+      const originalContent = readFileSync(fromPath);
+      const createdDirs = createParentDirs(baseDir, toPath);
+      const rewritten = fileSpec.fileContent !== originalContent.toString();
+
+      await gitUtils.moveFile(fileName, newFileName, baseDir);
+      if (rewritten) {
+        writeFileSync(toPath, fileSpec.fileContent);
+      }
+      logger.info(`Renamed file: ${fileName} → ${newFileName}`);
+
+      return {
+        fileName: newFileName,
+        created: false,
+        originalContent: originalContent.toString("base64"),
+        encoding: "base64",
+        newContent: fileSpec.fileContent,
+        newHash: hashContent(
+          rewritten ? fileSpec.fileContent : originalContent
+        ),
+        createdDirs,
+        renamedFrom: fileName,
+      };
+    } catch (error) {
+      logger.error(`❌ Error renaming file ${fileName}:`, error);
+      return null;
     }
   },
 };
@@ -0,0 +1,179 @@
+import fs from "fs/promises";
+import path from "path";
+import { constants, imageExtensions, mimeTypes } from "../config/constants";
+import { FileInspection } from "./types";
+
+/**
+ * Leading bytes identifying common binary formats
+ */
+const MAGIC_NUMBERS: { bytes: number[]; offset?: number; mimeType: string }[] =
+  [
+    { bytes: [0x89, 0x50, 0x4e, 0x47], mimeType: "image/png" },
+    { bytes: [0xff, 0xd8, 0xff], mimeType: "image/jpeg" },
+    { bytes: [0x47, 0x49, 0x46, 0x38], mimeType: "image/gif" },
+    { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], mimeType: "application/pdf" },
+    { bytes: [0x50, 0x4b, 0x03, 0x04], mimeType: "application/zip" },
+    { bytes: [0x1f, 0x8b], mimeType: "application/gzip" },
+    {
+      bytes: [0x37, 0x7a, 0xbc, 0xaf],
+      mimeType: "application/x-7z-compressed",
+    },
+    { bytes: [0x00, 0x61, 0x73, 0x6d], mimeType: "application/wasm" },
+    { bytes: [0x77, 0x4f, 0x46, 0x46], mimeType: "font/woff" },
+    { bytes: [0x77, 0x4f, 0x46, 0x32], mimeType: "font/woff2" },
+    {
+      // "SQLite format 3"
+      bytes: [0x53, 0x51, 0x4c, 0x69, 0x74, 0x65, 0x20, 0x66, 0x6f, 0x72],
+      mimeType: "application/vnd.sqlite3",
+    },
+    { bytes: [0x7f, 0x45, 0x4c, 0x46], mimeType: "application/x-elf" },
+    { bytes: [0xca, 0xfe, 0xba, 0xbe], mimeType: "application/java-vm" },
+    { bytes: [0x49, 0x44, 0x33], mimeType: "audio/mpeg" },
+    { bytes: [0x66, 0x74, 0x79, 0x70], offset: 4, mimeType: "video/mp4" },
+  ];
+
+/**
+ * Tells whether bytes are all printable ASCII, so that text may start with them
+ */
+const isPrintable = (bytes: number[]): boolean =>
+  bytes.every((byte) => byte >= 0x20 && byte < 0x7f);
+
+/**
+ * Binary file utilities namespace
+ */
+export const binaryUtils = {
+  /**
+   * Gets the MIME type of a file from its extension
+   * @param fallback Type used for unknown extensions
+   */
+  getMimeType(filePath: string, fallback: string = "text/plain"): string {
+    return mimeTypes[path.extname(filePath).toLowerCase()] || fallback;
+  },
+
+  /**
+   * Finds the format of a file from its leading bytes
+   * @param binary Whether the bytes are known not to be text, which magic
+   * numbers made of printable characters need to be trusted
+   * @returns The MIME type of the format, or null if unknown
+   */
+  matchMagicNumber(header: Buffer, binary: boolean = false): string | null {
+    const match = MAGIC_NUMBERS.find(
+      ({ bytes, offset = 0 }) =>
+        (binary || !isPrintable(bytes)) &&
+        bytes.every((byte, index) => header[offset + index] === byte)
+    );
+
+    return match ? match.mimeType : null;
+  },
+
+  /**
+   * Determines if the leading bytes of a file are not text
+   */
+  looksBinary(header: Buffer): boolean {
+    if (header.includes(0)) return true;
+
+    // A multi-byte character may be cut at the end of the sample
+    let end = header.length;
+    while (end > 0 && end > header.length - 3 && header[end - 1] >= 0x80) {
+      end--;
+    }
+
+    try {
+      new TextDecoder("utf-8", { fatal: true }).decode(header.subarray(0, end));
+      return false;
+    } catch {
+      return true;
+    }
+  },
+
+  /**
+   * Reads the leading bytes of a file
+   */
+  async readHeader(filePath: string, length: number): Promise<Buffer> {
+    const handle = await fs.open(filePath, "r");
+
+    try {
+      const buffer = Buffer.alloc(length);
+      const { bytesRead } = await handle.read(buffer, 0, length, 0);
+      return buffer.subarray(0, bytesRead);
+    } finally {
+      await handle.close();
+    }
+  },
+
+  /**
+   * Tells whether a file can be exported as text, without reading it whole
+   * @param maxFileSize Size in bytes over which the file is too large to export
+   */
+  async inspect(
+    filePath: string,
+    maxFileSize: number = constants.MAX_FILE_SIZE
+  ): Promise<FileInspection> {
+    const { size } = await fs.stat(filePath);
+    const extension = path.extname(filePath).toLowerCase();
+
+    if (imageExtensions.includes(extension)) {
+      return {
+        kind: "image",
+        size,
+        mimeType: this.getMimeType(filePath, "image/*"),
+      };
+    }
+
+    if (size > maxFileSize) {
+      return { kind: "large", size, mimeType: this.getMimeType(filePath) };
+    }
+
+    const header = await this.readHeader(
+      filePath,
+      constants.BINARY_SNIFF_BYTES
+    );
+    const binary = this.looksBinary(header);
+    const magicMimeType = this.matchMagicNumber(header, binary);
+
+    if (magicMimeType || binary) {
+      return {
+        kind: "binary",
+        size,
+        mimeType:
+          magicMimeType ||
+          this.getMimeType(filePath, "application/octet-stream"),
+      };
+    }
+
+    return { kind: "text", size, mimeType: this.getMimeType(filePath) };
+  },
+
+  /**
+   * Formats a size in bytes for humans
+   */
+  formatSize(size: number): string {
+    if (size < 1024) return `${size} B`;
+    if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`;
+    return `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  },
+
+  /**
+   * Describes a file whose content is left out of the export
+   * @param maxFileSize Size limit the file was inspected with
+   */
+  describePlaceholder(
+    inspection: FileInspection,
+    maxFileSize: number = constants.MAX_FILE_SIZE
+  ): string {
+    const details = `${inspection.mimeType}, ${this.formatSize(
+      inspection.size
+    )}`;
+
+    switch (inspection.kind) {
+      case "image":
+        return `Image file: ${details}`;
+      case "large":
+        return `File too large to export: ${details}, over the ${this.formatSize(
+          maxFileSize
+        )} limit`;
+      default:
+        return `Binary file: ${details}`;
+    }
+  },
+};
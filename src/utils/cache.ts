@@ -0,0 +1,182 @@
+import fs from "fs/promises";
+import { createReadStream } from "fs";
+import path from "path";
+import crypto from "crypto";
+import { constants } from "../config/constants";
+import { logger } from "../ui/logger";
+import { tokenUtils } from "./tokens";
+import { truncationUtils } from "./truncation";
+import {
+  ExportCache,
+  ExportedFile,
+  TokenBudgetDecision,
+  ZhankaiConfig,
+} from "./types";
+
+/** Version of the cache format, bump it when exported files change shape */
+const CACHE_VERSION = 2;
+
+/**
+ * Gets the directory holding the export cache of a repository
+ */
+const getCacheDir = (baseDir: string): string =>
+  path.join(baseDir, constants.ZHANKAI_DIR, constants.CACHE_DIR);
+
+/**
+ * Export cache utilities namespace
+ */
+export const cacheUtils = {
+  /**
+   * Creates an empty cache
+   */
+  createCache(): ExportCache {
+    return { version: CACHE_VERSION, entries: {}, hits: 0, misses: 0 };
+  },
+
+  /**
+   * Loads the export cache of a repository
+   * @returns The saved cache, or an empty one if missing, invalid or outdated
+   */
+  async load(baseDir: string): Promise<ExportCache> {
+    try {
+      const content = await fs.readFile(
+        path.join(getCacheDir(baseDir), constants.CACHE_FILE),
+        "utf8"
+      );
+      const saved = JSON.parse(content) as ExportCache;
+
+      if (saved.version === CACHE_VERSION && saved.entries) {
+        return { ...saved, hits: 0, misses: 0 };
+      }
+    } catch (error) {
+      logger.debug("No export cache to reuse:", error);
+    }
+
+    return this.createCache();
+  },
+
+  /**
+   * Saves the export cache of a repository
+   */
+  async save(baseDir: string, cache: ExportCache): Promise<void> {
+    const cacheDir = getCacheDir(baseDir);
+    const cachePath = path.join(cacheDir, constants.CACHE_FILE);
+
+    await fs.mkdir(cacheDir, { recursive: true });
+    // Replace the file at once so a concurrent run never reads half of it
+    await fs.writeFile(
+      `${cachePath}.tmp`,
+      JSON.stringify({ version: cache.version, entries: cache.entries }),
+      "utf8"
+    );
+    await fs.rename(`${cachePath}.tmp`, cachePath);
+  },
+
+  /**
+   * Deletes the export cache of a repository
+   * @returns Whether there was a cache to delete
+   */
+  async clear(baseDir: string): Promise<boolean> {
+    const cacheDir = getCacheDir(baseDir);
+
+    try {
+      await fs.access(cacheDir);
+    } catch {
+      return false;
+    }
+
+    await fs.rm(cacheDir, { recursive: true, force: true });
+    return true;
+  },
+
+  /**
+   * Computes the SHA-256 of a file without loading it whole
+   */
+  async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash("sha256");
+
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+
+    return hash.digest("hex");
+  },
+
+  /**
+   * Describes the settings an exported file depends on, besides its content
+   */
+  getVariant(
+    relativePath: string,
+    decision: TokenBudgetDecision | undefined,
+    options: Pick<
+      ZhankaiConfig,
+      "query" | "truncation" | "maxFileLines" | "previewLines" | "maxFileSize"
+    >
+  ): string {
+    const strategy = truncationUtils.getStrategyName(
+      relativePath,
+      options.truncation
+    );
+
+    return JSON.stringify([
+      decision || null,
+      strategy,
+      // Only the relevance strategy depends on the query
+      strategy === "relevance" ? tokenUtils.getKeywords(options.query) : [],
+      options.maxFileLines ?? constants.MAX_FILE_LINES,
+      options.previewLines ?? constants.PREVIEW_LINES,
+      options.maxFileSize ?? constants.MAX_FILE_SIZE,
+    ]);
+  },
+
+  /**
+   * Gets an exported file from the cache, or exports it and caches it
+   * @param variant Settings the file is exported with, from getVariant
+   * @param exportFile Exports the file when it changed since it was cached
+   */
+  async getFile(
+    cache: ExportCache,
+    baseDir: string,
+    relativePath: string,
+    variant: string,
+    exportFile: () => Promise<ExportedFile>
+  ): Promise<ExportedFile> {
+    const filePath = path.join(baseDir, relativePath);
+
+    let size: number;
+    let mtimeMs: number;
+    try {
+      ({ size, mtimeMs } = await fs.stat(filePath));
+    } catch {
+      // Exporting reports why the file cannot be read
+      return exportFile();
+    }
+
+    const cached = cache.entries[relativePath];
+
+    if (cached && cached.variant === variant && cached.size === size) {
+      // A file touched without changes, such as by a checkout, is still reused
+      if (
+        cached.mtimeMs === mtimeMs ||
+        (cached.hash && cached.hash === (await this.hashFile(filePath)))
+      ) {
+        cached.mtimeMs = mtimeMs;
+        cache.hits = (cache.hits || 0) + 1;
+        return cached.file;
+      }
+    }
+
+    const file = await exportFile();
+    cache.entries[relativePath] = {
+      size,
+      mtimeMs,
+      // Files left out are not worth reading to hash
+      hash: file.omitted ? undefined : await this.hashFile(filePath),
+      variant,
+      file,
+    };
+    cache.misses = (cache.misses || 0) + 1;
+
+    return file;
+  },
+};
@@ -0,0 +1,75 @@
+/**
+ * Runs a task once a slot is free, limiting how many run at once
+ */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Concurrency utilities namespace
+ */
+export const concurrencyUtils = {
+  /**
+   * Creates a limiter shared by tasks started from anywhere, such as a
+   * recursive walk. Tasks must not wait for other tasks of the same limiter.
+   * @param concurrency Maximum number of tasks running at once
+   */
+  createLimiter(concurrency: number): Limiter {
+    let running = 0;
+    const queue: (() => void)[] = [];
+
+    const release = () => {
+      running--;
+      queue.shift()?.();
+    };
+
+    return <T>(task: () => Promise<T>): Promise<T> =>
+      new Promise<T>((resolve, reject) => {
+        const run = () => {
+          running++;
+          task().then(resolve, reject).finally(release);
+        };
+
+        if (running < concurrency) {
+          run();
+        } else {
+          queue.push(run);
+        }
+      });
+  },
+
+  /**
+   * Runs a task on each item in parallel and consumes the results in order,
+   * keeping at most `concurrency` results ahead of the consumer
+   * @param task Produces the result of an item, such as reading a file
+   * @param consume Handles the results one at a time, such as writing them
+   */
+  async forEachOrdered<T, R>(
+    items: T[],
+    concurrency: number,
+    task: (item: T, index: number) => Promise<R>,
+    consume: (result: R, index: number) => Promise<void>
+  ): Promise<void> {
+    const pending = new Map<number, Promise<R>>();
+    let next = 0;
+
+    const startNext = () => {
+      if (next >= items.length) return;
+
+      const promise = task(items[next], next);
+      // Failures are thrown when the result is consumed, in order
+      promise.catch(() => {});
+      pending.set(next, promise);
+      next++;
+    };
+
+    for (let slot = 0; slot < Math.max(1, concurrency); slot++) {
+      startNext();
+    }
+
+    for (let index = 0; index < items.length; index++) {
+      const result = await pending.get(index)!;
+      pending.delete(index);
+      await consume(result, index);
+      startNext();
+    }
+  },
+};
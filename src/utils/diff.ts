@@ -0,0 +1,203 @@
+import { colors } from "../config/constants";
+
+/** Upper bound of the LCS table size before falling back to a full replacement hunk */
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Marks the last line of content without a final newline, so that adding or
+ * removing the newline changes that line. Split lines never hold it
+ */
+const NO_NEWLINE = "\n";
+
+/**
+ * A single line-level edit operation
+ */
+interface DiffOp {
+  type: "equal" | "add" | "remove";
+  line: string;
+}
+
+/**
+ * Splits content into lines, marking the last one if it has no newline
+ */
+const splitLines = (content: string): string[] => {
+  if (content === "") return [];
+  const lines = content.split("\n");
+  if (lines[lines.length - 1] === "") {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += NO_NEWLINE;
+  }
+  return lines;
+};
+
+/**
+ * Computes line-level edit operations using a longest common subsequence table
+ */
+const computeOps = (oldLines: string[], newLines: string[]): DiffOp[] => {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  // Too large to diff line by line: show everything as replaced
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map((line) => ({ type: "remove" as const, line })),
+      ...newLines.map((line) => ({ type: "add" as const, line })),
+    ];
+  }
+
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    table.push(new Uint32Array(m + 1));
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] =
+        oldLines[i] === newLines[j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < n && j < m) {
+    if (oldLines[i] === newLines[j]) {
+      ops.push({ type: "equal", line: oldLines[i] });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      ops.push({ type: "remove", line: oldLines[i] });
+      i++;
+    } else {
+      ops.push({ type: "add", line: newLines[j] });
+      j++;
+    }
+  }
+
+  while (i < n) ops.push({ type: "remove", line: oldLines[i++] });
+  while (j < m) ops.push({ type: "add", line: newLines[j++] });
+
+  return ops;
+};
+
+/**
+ * Diff utilities namespace
+ */
+export const diffUtils = {
+  /**
+   * Creates a unified diff between two versions of a file
+   * @param oldContent Current content, or null if the file does not exist yet
+   * @param newContent Proposed content
+   * @param fileName Path displayed in the diff headers
+   * @param context Number of unchanged lines shown around each change
+   * @returns The unified diff, or an empty string if both versions are identical
+   */
+  createUnifiedDiff(
+    oldContent: string | null,
+    newContent: string,
+    fileName: string,
+    context: number = 3
+  ): string {
+    const oldLines = splitLines(oldContent ?? "");
+    const newLines = splitLines(newContent);
+    const ops = computeOps(oldLines, newLines);
+
+    if (!ops.some((op) => op.type !== "equal")) {
+      return "";
+    }
+
+    let diff = `--- ${oldContent === null ? "/dev/null" : `a/${fileName}`}\n`;
+    diff += `+++ b/${fileName}\n`;
+
+    let index = 0;
+    while (index < ops.length) {
+      // Find the next change
+      while (index < ops.length && ops[index].type === "equal") index++;
+      if (index >= ops.length) break;
+
+      // Extend the hunk until there are more than 2 * context equal lines in a row
+      const start = Math.max(0, index - context);
+      let end = index;
+      let equalRun = 0;
+      while (end < ops.length && equalRun <= context * 2) {
+        equalRun = ops[end].type === "equal" ? equalRun + 1 : 0;
+        end++;
+      }
+      end = Math.min(ops.length, end - Math.max(0, equalRun - context));
+
+      // Compute line numbers at the hunk start
+      let oldStart = 1;
+      let newStart = 1;
+      for (let k = 0; k < start; k++) {
+        if (ops[k].type !== "add") oldStart++;
+        if (ops[k].type !== "remove") newStart++;
+      }
+
+      const hunk = ops.slice(start, end);
+      const oldCount = hunk.filter((op) => op.type !== "add").length;
+      const newCount = hunk.filter((op) => op.type !== "remove").length;
+
+      diff += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${
+        newCount === 0 ? newStart - 1 : newStart
+      },${newCount} @@\n`;
+
+      for (const op of hunk) {
+        const marker =
+          op.type === "add" ? "+" : op.type === "remove" ? "-" : " ";
+        diff += op.line.endsWith(NO_NEWLINE)
+          ? `${marker}${op.line}\\ No newline at end of file\n`
+          : `${marker}${op.line}\n`;
+      }
+
+      index = end;
+    }
+
+    return diff;
+  },
+
+  /**
+   * Counts added and removed lines between two versions of a file
+   */
+  countChanges(
+    oldContent: string | null,
+    newContent: string
+  ): { added: number; removed: number } {
+    const ops = computeOps(
+      splitLines(oldContent ?? ""),
+      splitLines(newContent)
+    );
+
+    return {
+      added: ops.filter((op) => op.type === "add").length,
+      removed: ops.filter((op) => op.type === "remove").length,
+    };
+  },
+
+  /**
+   * Adds terminal colors to a unified diff
+   */
+  colorize(diff: string): string {
+    return diff
+      .split("\n")
+      .map((line) => {
+        if (line.startsWith("+++") || line.startsWith("---")) {
+          return `${colors.BOLD}${line}${colors.RESET}`;
+        }
+        if (line.startsWith("@@")) {
+          return `${colors.FG_CYAN}${line}${colors.RESET}`;
+        }
+        if (line.startsWith("+")) {
+          return `${colors.FG_GREEN}${line}${colors.RESET}`;
+        }
+        if (line.startsWith("-")) {
+          return `${colors.FG_RED}${line}${colors.RESET}`;
+        }
+        return line;
+      })
+      .join("\n");
+  },
+};
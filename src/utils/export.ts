@@ -0,0 +1,257 @@
+import path from "path";
+import { existsSync, mkdirSync } from "fs";
+import { constants } from "../config/constants";
+import { TerminalLoader } from "../ui/loader";
+import { logger } from "../ui/logger";
+import { cacheUtils } from "./cache";
+import { fileUtils } from "./file";
+import { gitUtils } from "./git";
+import { markdownUtils } from "./markdown";
+import { redactionUtils } from "./redaction";
+import { tokenUtils } from "./tokens";
+import {
+  ExportFooter,
+  FileTokenStats,
+  IgnoreRules,
+  Redaction,
+  TokenBudgetPlan,
+  ZhankaiConfig,
+} from "./types";
+import { writerUtils } from "./writers";
+
+/**
+ * Export utilities namespace
+ */
+export const exportUtils = {
+  /**
+   * Sets up the output directory
+   */
+  async setupOutputDirectory(baseDir: string): Promise<string> {
+    const zhankaiDir = path.join(baseDir, constants.ZHANKAI_DIR);
+
+    try {
+      if (!existsSync(zhankaiDir)) {
+        mkdirSync(zhankaiDir, { recursive: true });
+        logger.info(`Created zhankai directory: ${zhankaiDir}`);
+
+        // Add /zhankai to .gitignore
+        await gitUtils.addToGitignore(baseDir, constants.ZHANKAI_DIR);
+      } else {
+        logger.info(`Using existing zhankai directory: ${zhankaiDir}`);
+      }
+
+      return zhankaiDir;
+    } catch (error) {
+      logger.error("Error setting up output directory:", error);
+      throw error;
+    }
+  },
+
+  /**
+   * Measures the files of an export and plans its token budget
+   * @param reservedTokens Tokens used by the rest of the export, such as the
+   * header and footer
+   * @returns File stats, and the budget plan if config.maxTokens is set
+   */
+  async measureExport(
+    baseDir: string,
+    config: ZhankaiConfig,
+    ignoreRules: IgnoreRules,
+    reservedTokens: number = 0
+  ): Promise<{ stats: FileTokenStats[]; plan?: TokenBudgetPlan }> {
+    const entries = await fileUtils.collectEntries(
+      baseDir,
+      config,
+      0,
+      baseDir,
+      ignoreRules,
+      fileUtils.getIncludeRules(config.include)
+    );
+    const stats = await tokenUtils.getFileStats(
+      baseDir,
+      entries
+        .filter((entry) => !entry.isDirectory)
+        .map((entry) => entry.relativePath),
+      config.query,
+      config.truncation,
+      config
+    );
+
+    if (!config.maxTokens) {
+      return { stats };
+    }
+
+    // Directory headings are written whatever the budget decides
+    const headings = await writerUtils.render(
+      config.format,
+      async (writer, append) => {
+        for (const entry of entries) {
+          if (entry.isDirectory) {
+            await writer.writeDirectory(entry.relativePath, append);
+          }
+        }
+      }
+    );
+    reservedTokens += tokenUtils.estimateTokens(headings);
+
+    const priority = config.priority || (config.query ? "relevance" : "size");
+    const plan = tokenUtils.planBudget(
+      stats,
+      config.maxTokens,
+      priority,
+      reservedTokens,
+      config
+    );
+
+    return { stats, plan };
+  },
+
+  /**
+   * Generates repository documentation
+   */
+  async generateRepoDocumentation(
+    baseDir: string,
+    repoName: string,
+    config: ZhankaiConfig,
+    ignoreRules: IgnoreRules
+  ): Promise<void> {
+    const writer = writerUtils.createWriter(config.format);
+    const includeRules = fileUtils.getIncludeRules(config.include);
+
+    // Secrets replaced by placeholders, reported once the export is written
+    const redactions: (Redaction & { file: string })[] = [];
+
+    // Generate the file structure first so its size counts in the budget
+    const footer: ExportFooter = {
+      structure: await fileUtils.generateFileStructure(
+        baseDir,
+        config.depth,
+        "",
+        true,
+        baseDir,
+        ignoreRules,
+        includeRules
+      ),
+    };
+
+    // Changed files come with their diff
+    if (config.changedSince || config.staged) {
+      const diff = redactionUtils.redact(
+        await gitUtils.getDiff(
+          { ref: config.changedSince, staged: config.staged },
+          baseDir
+        )
+      );
+      footer.changes = diff.content;
+      redactions.push(
+        ...diff.redactions.map((redaction) => ({
+          file: "(diff)",
+          ...redaction,
+        }))
+      );
+    }
+
+    if (config.maxTokens) {
+      // The footer gets the budget summary, measured with its longest numbers
+      const frame = await writerUtils.render(
+        config.format,
+        async (writer, append) => {
+          await writer.writeHeader(repoName, append);
+          await writer.writeFooter(
+            {
+              ...footer,
+              plan: {
+                decisions: {},
+                maxTokens: config.maxTokens!,
+                usedTokens: config.maxTokens! * 10,
+                truncated: [],
+                omitted: [],
+              },
+            },
+            append
+          );
+        }
+      );
+
+      ({ plan: footer.plan } = await this.measureExport(
+        baseDir,
+        config,
+        ignoreRules,
+        tokenUtils.estimateTokens(frame)
+      ));
+    }
+
+    // Files that did not change since the last export are reused
+    const cache =
+      config.cache === false ? undefined : await cacheUtils.load(baseDir);
+
+    // The whole export goes through one stream, in traversal order
+    const output = fileUtils.openOutputStream(config.output);
+    const loader = new TerminalLoader("Exporting files");
+
+    try {
+      await writer.writeHeader(repoName, output.append);
+
+      loader.start();
+      await fileUtils.traverseDirectory(
+        baseDir,
+        config,
+        0,
+        baseDir,
+        ignoreRules,
+        includeRules,
+        footer.plan,
+        writer,
+        output.append,
+        (processed, total, file) => {
+          loader.updateMessage(`Exporting files ${processed}/${total}`);
+          for (const redaction of file?.redactions || []) {
+            redactions.push({ file: file!.fileName, ...redaction });
+          }
+        },
+        cache
+      );
+
+      await writer.writeFooter(footer, output.append);
+    } finally {
+      loader.stop();
+      await output.close();
+    }
+
+    if (cache) {
+      try {
+        await cacheUtils.save(baseDir, cache);
+      } catch (error) {
+        logger.warn("Could not save the export cache:", error);
+      }
+      logger.debug(
+        `Export cache: ${cache.hits} file(s) reused, ${cache.misses} file(s) exported`
+      );
+    }
+
+    const plan = footer.plan;
+    if (plan && (plan.truncated.length > 0 || plan.omitted.length > 0)) {
+      logger.warn(
+        `Token budget of ${plan.maxTokens} reached: ${plan.truncated.length} file(s) truncated, ${plan.omitted.length} file(s) omitted`
+      );
+    }
+
+    if (redactions.length > 0) {
+      logger.warn(
+        `Redacted ${redactions.length} secret(s): ${redactionUtils.summarize(
+          redactions
+        )}`
+      );
+      logger.info(
+        markdownUtils.createTable(
+          ["File", "Line", "Secret"],
+          redactions.map(({ file, line, type }) => [file, String(line), type])
+        )
+      );
+    }
+
+    logger.info(
+      `Content of all files and repo structure written: ${config.output}`
+    );
+  },
+};
@@ -1,14 +1,45 @@
 import fs from "fs/promises";
-import { writeFileSync } from "fs";
+import { createWriteStream, writeFileSync } from "fs";
+import { once } from "events";
+import { finished } from "stream/promises";
 import path from "path";
 import { Dirent } from "fs";
 import ignore from "ignore";
 import { logger } from "../ui/logger";
 import { constants, languageMap, imageExtensions } from "../config/constants";
-import { ZhankaiConfig } from "./types";
+import { binaryUtils } from "./binary";
+import { gitignoreUtils } from "./gitignore";
+import { cacheUtils } from "./cache";
+import { concurrencyUtils, Limiter } from "./concurrency";
+import { tokenUtils } from "./tokens";
+import { redactionUtils } from "./redaction";
+import { truncationUtils } from "./truncation";
+import { writerUtils } from "./writers";
+import {
+  ExportAppend,
+  ExportCache,
+  ExportEntry,
+  ExportedFile,
+  ExportOutput,
+  ExportProgress,
+  ExportWriter,
+  IgnoreRules,
+  TokenBudgetDecision,
+  TokenBudgetPlan,
+  ZhankaiConfig,
+} from "./types";
 
 // Define the return type of ignore() since Ignore isn't exported directly
-type IgnoreInstance = ReturnType<typeof ignore>;
+export type IgnoreInstance = ReturnType<typeof ignore>;
+
+/**
+ * Directories holding included files, by include rules, root and depth, so
+ * the tree is walked once per export and structure instead of per directory
+ */
+const includedDirectoriesCache = new WeakMap<
+  IgnoreInstance,
+  Map<string, Promise<Set<string>>>
+>();
 
 /**
  * File utilities namespace
@@ -72,26 +103,177 @@ export const fileUtils = {
   },
 
   /**
-   * Gets ignore rules from .gitignore if it exists
+   * Gets the rules of the files left out of the export: the ignore files of
+   * git, .zhankaiignore, the defaults and the --exclude patterns
+   * @param dir Root of the export
+   * @param exclude Additional glob patterns to exclude
+   * @param respectGit Use git ls-files instead of the ignore files of git
+   * @param defaultIgnores Items always ignored
    */
-  async getIgnoreRules(dir: string): Promise<IgnoreInstance> {
-    const ig = ignore();
+  async getIgnoreRules(
+    dir: string,
+    exclude: string[] = [],
+    respectGit: boolean = false,
+    defaultIgnores: string[] = constants.DEFAULT_IGNORES
+  ): Promise<IgnoreRules> {
+    const extra = ignore();
+
+    // Add default ignores
+    extra.add(defaultIgnores);
 
     try {
-      const gitignorePath = path.join(dir, ".gitignore");
-      const gitignoreContent = await fs.readFile(gitignorePath, "utf-8");
+      extra.add(
+        await fs.readFile(
+          path.join(dir, constants.ZHANKAI_IGNORE_FILE),
+          "utf-8"
+        )
+      );
+    } catch (error) {
+      // The ignore file is optional
+    }
 
-      // Add default ignores
-      ig.add(constants.DEFAULT_IGNORES);
+    // Add patterns given with --exclude
+    extra.add(exclude);
 
-      // Add rules from .gitignore
-      ig.add(gitignoreContent);
-    } catch (error) {
-      // If .gitignore doesn't exist, use default ignores
-      ig.add(constants.DEFAULT_IGNORES);
+    return respectGit
+      ? gitignoreUtils.createTrackedRules(dir, extra)
+      : gitignoreUtils.createGitRules(dir, extra);
+  },
+
+  /**
+   * Determines if an entry is left out of the export
+   */
+  isExcluded(
+    name: string,
+    relativePath: string,
+    isDirectory: boolean,
+    ig: IgnoreRules
+  ): boolean {
+    // Directory patterns such as "dist/" only match paths ending with a slash
+    return (
+      constants.EXCLUDED_ITEMS.includes(name) ||
+      ig.ignores(isDirectory ? `${relativePath}/` : relativePath)
+    );
+  },
+
+  /**
+   * Gets the rules matching the files to include, if any
+   * @param include Glob patterns in gitignore syntax
+   * @returns Rules whose ignores() tells if a path is included, or undefined to include everything
+   */
+  getIncludeRules(include: string[] = []): IgnoreInstance | undefined {
+    return include.length > 0 ? ignore().add(include) : undefined;
+  },
+
+  /**
+   * Lists the directories holding at least one included file, walking the
+   * tree once per include rules and depth
+   * @param maxDepth Depth of the deepest directories whose files are exported
+   * @returns Paths relative to baseDir, "" for baseDir itself
+   */
+  async getIncludedDirectories(
+    baseDir: string,
+    maxDepth: number,
+    ig: IgnoreRules,
+    includeRules: IgnoreInstance
+  ): Promise<Set<string>> {
+    let cached = includedDirectoriesCache.get(includeRules);
+    if (!cached) {
+      cached = new Map();
+      includedDirectoriesCache.set(includeRules, cached);
     }
 
-    return ig;
+    const key = `${baseDir}:${maxDepth}`;
+    let directories = cached.get(key);
+    if (!directories) {
+      directories = this.findIncludedDirectories(
+        baseDir,
+        maxDepth,
+        ig,
+        includeRules
+      );
+      cached.set(key, directories);
+    }
+
+    return directories;
+  },
+
+  /**
+   * Walks the tree down to maxDepth and collects the directories holding at
+   * least one included file
+   */
+  async findIncludedDirectories(
+    baseDir: string,
+    maxDepth: number,
+    ig: IgnoreRules,
+    includeRules: IgnoreInstance
+  ): Promise<Set<string>> {
+    const directories = new Set<string>();
+
+    const walk = async (dir: string, depth: number): Promise<boolean> => {
+      let files: Dirent[];
+      try {
+        files = await fs.readdir(dir, { withFileTypes: true });
+        await ig.loadDirectory(path.relative(baseDir, dir));
+      } catch (error) {
+        logger.error(`Error reading directory ${dir}:`, error);
+        return false;
+      }
+
+      let found = false;
+      for (const file of files) {
+        const relativePath = path.relative(baseDir, path.join(dir, file.name));
+
+        if (this.isExcluded(file.name, relativePath, file.isDirectory(), ig)) {
+          continue;
+        }
+
+        if (file.isDirectory()) {
+          if (
+            depth < maxDepth &&
+            (await walk(path.join(dir, file.name), depth + 1))
+          ) {
+            found = true;
+          }
+        } else if (includeRules.ignores(relativePath)) {
+          found = true;
+        }
+      }
+
+      if (found) directories.add(path.relative(baseDir, dir));
+      return found;
+    };
+
+    await walk(baseDir, 0);
+    return directories;
+  },
+
+  /**
+   * Determines if an entry passes the include rules
+   * @param isDirectory Directories pass when they contain an included file
+   * @param maxDepth Depth of the deepest directories whose files are exported
+   */
+  async isIncluded(
+    filePath: string,
+    relativePath: string,
+    isDirectory: boolean,
+    baseDir: string,
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance,
+    maxDepth: number = Infinity
+  ): Promise<boolean> {
+    if (!includeRules) return true;
+
+    return isDirectory
+      ? (
+          await this.getIncludedDirectories(
+            baseDir,
+            maxDepth,
+            ig,
+            includeRules
+          )
+        ).has(relativePath)
+      : includeRules.ignores(relativePath);
   },
 
   /**
@@ -111,94 +293,399 @@ export const fileUtils = {
   },
 
   /**
-   * Processes a file for inclusion in the documentation
+   * Reads a file as it should appear in the documentation
+   * @param decision How the file fits in the token budget, in full if unset
+   * @param options Query, truncation rules and limits, used to cut long files
    */
-  async processFile(
+  async readExportedFile(
     filePath: string,
     relativePath: string,
-    options: ZhankaiConfig
-  ): Promise<void> {
-    const langTag = this.getLanguageTag(filePath);
+    decision?: TokenBudgetDecision,
+    options: Pick<
+      ZhankaiConfig,
+      "query" | "truncation" | "maxFileLines" | "previewLines" | "maxFileSize"
+    > = {}
+  ): Promise<ExportedFile> {
+    const maxFileLines = options.maxFileLines ?? constants.MAX_FILE_LINES;
+    const maxFileSize = options.maxFileSize ?? constants.MAX_FILE_SIZE;
+    const file: ExportedFile = {
+      fileName: relativePath,
+      fileContent: "",
+      language: this.getLanguageTag(filePath),
+    };
+
+    if (decision?.action === "omit") {
+      return {
+        ...file,
+        omitted: true,
+        note: constants.OMITTED_FILE_NOTE,
+      };
+    }
+
+    try {
+      // Images, binaries and large files are described instead of dumped
+      const inspection = await binaryUtils.inspect(filePath, maxFileSize);
+      if (inspection.kind !== "text") {
+        return {
+          ...file,
+          omitted: true,
+          note: binaryUtils.describePlaceholder(inspection, maxFileSize),
+        };
+      }
 
-    await this.appendFile(options.output, `\n### ${relativePath}\n\n`);
-    await this.appendFile(options.output, "```" + langTag + "\n");
+      // Secrets never leave the machine, whatever part of the file is shown
+      const { content, redactions } = redactionUtils.redact(
+        await fs.readFile(filePath, "utf8"),
+        relativePath
+      );
+      if (redactions.length > 0) file.redactions = redactions;
+      const lines = content.split("\n");
+
+      const cut = (maxLines: number) =>
+        truncationUtils.truncate(
+          lines,
+          {
+            relativePath,
+            maxLines,
+            keywords: tokenUtils.getKeywords(options.query),
+          },
+          truncationUtils.getStrategyName(relativePath, options.truncation)
+        );
+
+      if (decision?.action === "truncate" && decision.maxLines) {
+        const { lines: kept, description } = cut(decision.maxLines);
+        return {
+          ...file,
+          fileContent: kept.join("\n"),
+          note: truncationUtils.describeBudgetCut(
+            decision.maxLines,
+            lines.length,
+            description
+          ),
+        };
+      }
 
-    if (this.isImageFile(filePath)) {
-      await this.appendFile(options.output, "[This is an image file]");
-    } else {
-      try {
-        const content = await fs.readFile(filePath, "utf8");
-        const lines = content.split("\n");
-
-        if (lines.length > constants.MAX_FILE_LINES) {
-          const truncatedContent = lines
-            .slice(0, constants.PREVIEW_LINES)
-            .join("\n");
-          await this.appendFile(options.output, truncatedContent);
-          await this.appendFile(options.output, "\n```\n");
-          await this.appendFile(
-            options.output,
-            `\n[This file was cut: it has more than ${constants.MAX_FILE_LINES} lines]\n`
-          );
-        } else {
-          await this.appendFile(options.output, content);
-          await this.appendFile(options.output, "\n```\n");
-        }
-      } catch (error) {
-        await this.appendFile(options.output, "[Unable to read file content]");
-        await this.appendFile(options.output, "\n```\n");
-        logger.error(`Error reading file ${filePath}:`, error);
+      if (lines.length > maxFileLines) {
+        const { lines: kept, description } = cut(
+          options.previewLines ?? constants.PREVIEW_LINES
+        );
+        return {
+          ...file,
+          fileContent: kept.join("\n"),
+          note: truncationUtils.describePreview(maxFileLines, description),
+        };
       }
+
+      return { ...file, fileContent: content };
+    } catch (error) {
+      logger.error(`Error reading file ${filePath}:`, error);
+      return { ...file, fileContent: "[Unable to read file content]" };
     }
   },
 
   /**
-   * Traverses a directory to collect file information
+   * Processes a file for inclusion in the documentation
+   * @param decision How the file fits in the token budget, in full if unset
+   * @param writer Writer of the export, markdown if unset
    */
-  async traverseDirectory(
+  async processFile(
+    filePath: string,
+    relativePath: string,
+    options: ZhankaiConfig,
+    decision?: TokenBudgetDecision,
+    writer: ExportWriter = writerUtils.createWriter(options.format)
+  ): Promise<void> {
+    const file = await this.readExportedFile(
+      filePath,
+      relativePath,
+      decision,
+      options
+    );
+
+    await writer.writeFile(file, (content) =>
+      this.appendFile(options.output, content)
+    );
+  },
+
+  /**
+   * Collects the directories and files to export, in traversal order, or
+   * from options.files when set
+   * @param limit Limiter of the file system operations, shared by the whole walk
+   * @returns Entries with paths relative to baseDir
+   */
+  async collectEntries(
     dir: string,
     options: ZhankaiConfig,
     currentDepth: number = 0,
     baseDir: string,
-    ig: IgnoreInstance
-  ): Promise<void> {
-    if (currentDepth > options.depth) return;
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance,
+    limit: Limiter = concurrencyUtils.createLimiter(
+      constants.EXPORT_CONCURRENCY
+    )
+  ): Promise<ExportEntry[]> {
+    if (options.files) {
+      return this.entriesFromFiles(options, baseDir, ig, includeRules);
+    }
+
+    if (currentDepth > options.depth) return [];
 
+    let files: Dirent[];
     try {
-      const files = await fs.readdir(dir, { withFileTypes: true });
+      files = await limit(() => fs.readdir(dir, { withFileTypes: true }));
+      await limit(() => ig.loadDirectory(path.relative(baseDir, dir)));
+    } catch (error) {
+      logger.error(`Error traversing directory ${dir}:`, error);
+      return [];
+    }
 
-      for (const file of files) {
+    // Subdirectories are walked in parallel, the limiter bounds open files
+    const groups = await Promise.all(
+      files.map(async (file): Promise<ExportEntry[]> => {
         const relativePath = path.relative(baseDir, path.join(dir, file.name));
 
-        if (
-          constants.EXCLUDED_ITEMS.includes(file.name) ||
-          ig.ignores(relativePath)
-        ) {
-          continue;
+        if (this.isExcluded(file.name, relativePath, file.isDirectory(), ig)) {
+          return [];
         }
 
         const filePath = path.join(dir, file.name);
-        const stat = await fs.stat(filePath);
 
-        if (stat.isDirectory()) {
-          if (!file.name.startsWith(".")) {
-            await this.appendFile(options.output, `\n## ${relativePath}\n\n`);
+        try {
+          // Symbolic links are exported as what they point to
+          const isDirectory = file.isSymbolicLink()
+            ? (await limit(() => fs.stat(filePath))).isDirectory()
+            : file.isDirectory();
 
-            await this.traverseDirectory(
+          if (
+            !(await this.isIncluded(
+              filePath,
+              relativePath,
+              isDirectory,
+              baseDir,
+              ig,
+              includeRules,
+              options.depth
+            ))
+          ) {
+            return [];
+          }
+
+          if (!isDirectory) {
+            return [{ relativePath, isDirectory: false }];
+          }
+
+          if (file.name.startsWith(".")) return [];
+
+          return [
+            { relativePath, isDirectory: true },
+            ...(await this.collectEntries(
               filePath,
               options,
               currentDepth + 1,
               baseDir,
-              ig
-            );
-          }
-        } else {
-          await this.processFile(filePath, relativePath, options);
+              ig,
+              includeRules,
+              limit
+            )),
+          ];
+        } catch (error) {
+          logger.error(`Error traversing ${filePath}:`, error);
+          return [];
         }
+      })
+    );
+
+    return groups.flat();
+  },
+
+  /**
+   * Builds the export entries of an explicit list of files, applying the same
+   * filters as a directory walk
+   */
+  async entriesFromFiles(
+    options: ZhankaiConfig,
+    baseDir: string,
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance
+  ): Promise<ExportEntry[]> {
+    const entries: ExportEntry[] = [];
+    const seenDirectories = new Set<string>();
+
+    for (const relativePath of [...(options.files || [])].sort()) {
+      const segments = relativePath.split("/");
+      const directories = segments
+        .slice(0, -1)
+        .map((_, index) => segments.slice(0, index + 1).join("/"));
+
+      // Each directory down to the file may have ignore files
+      for (const directory of ["", ...directories]) {
+        await ig.loadDirectory(directory);
       }
-    } catch (error) {
-      logger.error(`Error traversing directory ${dir}:`, error);
+
+      if (
+        directories.length > options.depth ||
+        segments.slice(0, -1).some((segment) => segment.startsWith(".")) ||
+        directories.some((directory, index) =>
+          this.isExcluded(segments[index], directory, true, ig)
+        ) ||
+        this.isExcluded(
+          segments[segments.length - 1],
+          relativePath,
+          false,
+          ig
+        ) ||
+        (includeRules && !includeRules.ignores(relativePath))
+      ) {
+        continue;
+      }
+
+      try {
+        const stat = await fs.stat(path.join(baseDir, relativePath));
+        if (!stat.isFile()) continue;
+      } catch {
+        // Deleted files only appear in the diff
+        continue;
+      }
+
+      for (const directory of directories) {
+        if (!seenDirectories.has(directory)) {
+          seenDirectories.add(directory);
+          entries.push({ relativePath: directory, isDirectory: true });
+        }
+      }
+      entries.push({ relativePath, isDirectory: false });
     }
+
+    return entries;
+  },
+
+  /**
+   * Collects the paths of the files to export, relative to baseDir
+   */
+  async collectFiles(
+    baseDir: string,
+    options: ZhankaiConfig,
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance
+  ): Promise<string[]> {
+    const entries = await this.collectEntries(
+      baseDir,
+      options,
+      0,
+      baseDir,
+      ig,
+      includeRules
+    );
+
+    return entries
+      .filter((entry) => !entry.isDirectory)
+      .map((entry) => entry.relativePath);
+  },
+
+  /**
+   * Traverses a directory and writes its files to the output, reading them
+   * ahead in parallel and writing them in traversal order
+   * @param plan Token budget of the export, all files in full if unset
+   * @param writer Writer of the export, created from options.format if unset
+   * @param append Appends to the output, appending to options.output if unset
+   * @param onProgress Called after each file is written, with the file
+   * @param cache Files exported by previous runs, updated with this one
+   */
+  async traverseDirectory(
+    dir: string,
+    options: ZhankaiConfig,
+    currentDepth: number = 0,
+    baseDir: string,
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance,
+    plan?: TokenBudgetPlan,
+    writer: ExportWriter = writerUtils.createWriter(options.format),
+    append: ExportAppend = (content) =>
+      this.appendFile(options.output, content),
+    onProgress?: ExportProgress,
+    cache?: ExportCache
+  ): Promise<void> {
+    const entries = await this.collectEntries(
+      dir,
+      options,
+      currentDepth,
+      baseDir,
+      ig,
+      includeRules
+    );
+
+    const total = entries.filter((entry) => !entry.isDirectory).length;
+    let processed = 0;
+    onProgress?.(processed, total);
+
+    await concurrencyUtils.forEachOrdered(
+      entries,
+      constants.EXPORT_CONCURRENCY,
+      async (entry) => {
+        if (entry.isDirectory) return null;
+
+        const decision = plan?.decisions[entry.relativePath];
+        const exportFile = () =>
+          this.readExportedFile(
+            path.join(baseDir, entry.relativePath),
+            entry.relativePath,
+            decision,
+            options
+          );
+
+        return cache
+          ? cacheUtils.getFile(
+              cache,
+              baseDir,
+              entry.relativePath,
+              cacheUtils.getVariant(entry.relativePath, decision, options),
+              exportFile
+            )
+          : exportFile();
+      },
+      async (file, index) => {
+        if (!file) {
+          await writer.writeDirectory(entries[index].relativePath, append);
+          return;
+        }
+
+        await writer.writeFile(file, append);
+        processed++;
+        onProgress?.(processed, total, file);
+      }
+    );
+  },
+
+  /**
+   * Opens a stream replacing the content of a file, for outputs written in
+   * many small parts
+   */
+  openOutputStream(filePath: string): ExportOutput {
+    const stream = createWriteStream(filePath, { encoding: "utf-8" });
+    let failure: Error | null = null;
+
+    // Failures are thrown by the next append or close
+    stream.on("error", (error) => {
+      failure = error;
+    });
+
+    return {
+      async append(content) {
+        if (failure) throw failure;
+
+        if (!stream.write(content)) {
+          // Rejects if the stream fails while waiting
+          await once(stream, "drain");
+        }
+      },
+
+      async close() {
+        if (failure) throw failure;
+
+        stream.end();
+        await finished(stream);
+      },
+    };
   },
 
   /**
@@ -210,24 +697,48 @@ export const fileUtils = {
     prefix = "",
     isLast = true,
     baseDir: string,
-    ig: IgnoreInstance
+    ig: IgnoreRules,
+    includeRules?: IgnoreInstance
   ): Promise<string> {
     let treeStructure = "";
 
     try {
       const files: Dirent[] = await fs.readdir(dir, { withFileTypes: true });
-      const lastIndex = files.length - 1;
+      await ig.loadDirectory(path.relative(baseDir, dir));
 
-      for (const [index, file] of files.entries()) {
-        const relativePath = path.relative(baseDir, path.join(dir, file.name));
+      // Depth is left to walk from dir, the included directories are found from the root
+      const relativeDir = path.relative(baseDir, dir);
+      const maxDepth =
+        depth + (relativeDir ? relativeDir.split(path.sep).length : 0);
+
+      // Filter first so the last visible entry gets the closing connector
+      const visibleFiles: Dirent[] = [];
+      for (const file of files) {
+        const filePath = path.join(dir, file.name);
+        const relativePath = path.relative(baseDir, filePath);
+
+        if (this.isExcluded(file.name, relativePath, file.isDirectory(), ig)) {
+          continue;
+        }
 
         if (
-          constants.EXCLUDED_ITEMS.includes(file.name) ||
-          ig.ignores(relativePath)
+          await this.isIncluded(
+            filePath,
+            relativePath,
+            file.isDirectory(),
+            baseDir,
+            ig,
+            includeRules,
+            maxDepth
+          )
         ) {
-          continue;
+          visibleFiles.push(file);
         }
+      }
+
+      const lastIndex = visibleFiles.length - 1;
 
+      for (const [index, file] of visibleFiles.entries()) {
         const isDirectory = file.isDirectory();
         const newPrefix = prefix + (isLast ? "    " : "│   ");
         const connector = index === lastIndex ? "└── " : "├── ";
@@ -241,7 +752,8 @@ export const fileUtils = {
             newPrefix,
             index === lastIndex,
             baseDir,
-            ig
+            ig,
+            includeRules
           );
         }
       }
@@ -1,10 +1,22 @@
 import fs from "fs/promises";
+import os from "os";
 import path from "path";
-import { exec } from "child_process";
+import { exec, execFile } from "child_process";
 import { promisify } from "util";
 import { logger } from "../ui/logger";
+import { DiffScope } from "./types";
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/** Maximum length of the query part of generated branch names */
+const MAX_BRANCH_SLUG_LENGTH = 50;
+
+/** Maximum length of generated commit subjects */
+const MAX_COMMIT_SUBJECT_LENGTH = 72;
+
+/** Number of recent commits read to find when files last changed */
+const MAX_HISTORY_COMMITS = 1000;
 
 /**
  * Git utilities namespace
@@ -111,4 +123,412 @@ export const gitUtils = {
       return {};
     }
   },
+
+  /**
+   * Checks if a directory is inside a git work tree
+   */
+  async isGitRepository(dir: string = process.cwd()): Promise<boolean> {
+    try {
+      await execAsync("git rev-parse --is-inside-work-tree", { cwd: dir });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Gets the name of the currently checked out branch
+   */
+  async getCurrentBranch(dir: string = process.cwd()): Promise<string> {
+    const { stdout } = await execAsync("git rev-parse --abbrev-ref HEAD", {
+      cwd: dir,
+    });
+    return stdout.trim();
+  },
+
+  /**
+   * Gets what is checked out: the branch name, or the commit hash when HEAD
+   * is detached, so it can be checked out again
+   */
+  async getCurrentRef(dir: string = process.cwd()): Promise<string> {
+    const branch = await this.getCurrentBranch(dir);
+    if (branch !== "HEAD") return branch;
+
+    const { stdout } = await execAsync("git rev-parse HEAD", { cwd: dir });
+    return stdout.trim();
+  },
+
+  /**
+   * Checks if a local branch exists
+   */
+  async branchExists(
+    name: string,
+    dir: string = process.cwd()
+  ): Promise<boolean> {
+    try {
+      await execFileAsync(
+        "git",
+        ["rev-parse", "--verify", "--quiet", `refs/heads/${name}`],
+        { cwd: dir }
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  },
+
+  /**
+   * Generates an unused branch name from a query
+   */
+  async createBranchName(
+    query: string,
+    dir: string = process.cwd()
+  ): Promise<string> {
+    const slug =
+      query
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .slice(0, MAX_BRANCH_SLUG_LENGTH)
+        .replace(/^-+|-+$/g, "") || "query";
+
+    let name = `zhankai/${slug}`;
+    let counter = 2;
+    while (await this.branchExists(name, dir)) {
+      name = `zhankai/${slug}-${counter}`;
+      counter++;
+    }
+
+    return name;
+  },
+
+  /**
+   * Creates a new branch from the current HEAD and checks it out
+   */
+  async createBranch(name: string, dir: string = process.cwd()): Promise<void> {
+    await execFileAsync("git", ["checkout", "-b", name], { cwd: dir });
+  },
+
+  /**
+   * Checks out an existing branch, or a commit
+   */
+  async checkoutBranch(
+    name: string,
+    dir: string = process.cwd()
+  ): Promise<void> {
+    await execFileAsync("git", ["checkout", name], { cwd: dir });
+  },
+
+  /**
+   * Moves a file with git mv so the rename is staged, or with a plain
+   * rename when the file is not tracked or dir is not a repository
+   * @param from Path relative to dir
+   * @param to Path relative to dir, whose directory must exist
+   */
+  async moveFile(
+    from: string,
+    to: string,
+    dir: string = process.cwd()
+  ): Promise<void> {
+    try {
+      await execFileAsync("git", ["mv", "--", from, to], { cwd: dir });
+    } catch (error) {
+      logger.debug(`git mv ${from} failed, renaming it instead:`, error);
+      await fs.rename(path.join(dir, from), path.join(dir, to));
+    }
+  },
+
+  /**
+   * Lists which of the given files have uncommitted changes
+   */
+  async getChangedFiles(
+    files: string[],
+    dir: string = process.cwd()
+  ): Promise<string[]> {
+    if (files.length === 0) return [];
+
+    const { stdout } = await execFileAsync(
+      "git",
+      ["status", "--porcelain", "--", ...files],
+      { cwd: dir }
+    );
+
+    return stdout
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => line.slice(3).trim());
+  },
+
+  /**
+   * Lists the untracked files that are not ignored
+   * @returns Paths relative to dir
+   */
+  async getUntrackedFiles(dir: string = process.cwd()): Promise<string[]> {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["ls-files", "--others", "--exclude-standard"],
+      { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+    );
+
+    return stdout.split("\n").filter((line) => line.trim());
+  },
+
+  /**
+   * Lists the files git knows about: tracked files and untracked files that
+   * are not ignored
+   * @returns Paths relative to dir
+   * @throws If dir is not inside a git repository
+   */
+  async listFiles(dir: string = process.cwd()): Promise<string[]> {
+    const { stdout } = await execFileAsync(
+      "git",
+      ["ls-files", "-z", "--cached", "--others", "--exclude-standard"],
+      { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+    );
+
+    return [...new Set(stdout.split("\0").filter(Boolean))];
+  },
+
+  /**
+   * Gets the root and the git directory of the repository containing dir
+   * @returns Absolute paths, or null outside a repository
+   */
+  async getRepoPaths(
+    dir: string = process.cwd()
+  ): Promise<{ topLevel: string; gitDir: string } | null> {
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["rev-parse", "--show-toplevel", "--absolute-git-dir"],
+        { cwd: dir }
+      );
+      const [topLevel, gitDir] = stdout.trim().split("\n");
+      return { topLevel, gitDir };
+    } catch {
+      return null;
+    }
+  },
+
+  /**
+   * Gets the path of the user's global ignore file, set by core.excludesFile
+   * @returns The configured path, or the default $XDG_CONFIG_HOME/git/ignore
+   */
+  async getExcludesFile(dir: string = process.cwd()): Promise<string> {
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["config", "--path", "core.excludesFile"],
+        { cwd: dir }
+      );
+      if (stdout.trim()) return stdout.trim();
+    } catch {
+      // Unset, git falls back to the default
+    }
+
+    return path.join(
+      process.env.XDG_CONFIG_HOME ||
+        path.join(process.env.HOME || os.homedir(), ".config"),
+      "git",
+      "ignore"
+    );
+  },
+
+  /**
+   * Runs git diff on the changes of a scope
+   * @param extraArgs Options such as --name-only
+   */
+  async runDiff(
+    scope: DiffScope,
+    extraArgs: string[],
+    dir: string
+  ): Promise<string> {
+    const args = [
+      "diff",
+      "--relative",
+      ...extraArgs,
+      ...(scope.staged ? ["--cached"] : []),
+      ...(scope.ref ? [scope.ref] : []),
+      "--",
+    ];
+
+    try {
+      const { stdout } = await execFileAsync("git", args, {
+        cwd: dir,
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return stdout;
+    } catch (error: any) {
+      const reason = (error?.stderr || error?.message || String(error))
+        .toString()
+        .split("\n")[0];
+      throw new Error(
+        `Could not diff against ${
+          scope.ref || (scope.staged ? "HEAD" : "the index")
+        }: ${reason}`
+      );
+    }
+  },
+
+  /**
+   * Lists the files changed in a scope that still exist
+   * @returns Paths relative to dir, including untracked files unless only staged changes are wanted
+   */
+  async getDiffFiles(
+    scope: DiffScope,
+    dir: string = process.cwd()
+  ): Promise<string[]> {
+    // Deleted files only show in the diff
+    const stdout = await this.runDiff(
+      scope,
+      ["--name-only", "--diff-filter=d"],
+      dir
+    );
+    const files = stdout.split("\n").filter((line) => line.trim());
+
+    if (!scope.staged) {
+      files.push(...(await this.getUntrackedFiles(dir)));
+    }
+
+    return [...new Set(files)].sort();
+  },
+
+  /**
+   * Gets the unified diff of the changes in a scope
+   */
+  async getDiff(
+    scope: DiffScope,
+    dir: string = process.cwd()
+  ): Promise<string> {
+    return this.runDiff(scope, [], dir);
+  },
+
+  /**
+   * Gets the time of the latest commit touching each file
+   * @returns Commit times in milliseconds by path relative to dir, empty outside a repository
+   */
+  async getLastCommitTimes(
+    dir: string = process.cwd()
+  ): Promise<Record<string, number>> {
+    const times: Record<string, number> = {};
+
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        [
+          "log",
+          `--max-count=${MAX_HISTORY_COMMITS}`,
+          "--format=%x00%ct",
+          "--name-only",
+          "--relative",
+        ],
+        { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+      );
+
+      // Commits are listed newest first, so the first time seen is the latest
+      for (const commit of stdout.split("\0").filter(Boolean)) {
+        const [timestamp, ...files] = commit.split("\n");
+        for (const file of files.filter((file) => file.trim())) {
+          if (!(file in times)) {
+            times[file] = parseInt(timestamp) * 1000;
+          }
+        }
+      }
+    } catch (error) {
+      logger.debug("Could not read git history:", error);
+    }
+
+    return times;
+  },
+
+  /**
+   * Lists the files whose content differs from the latest commit: modified,
+   * staged or untracked and not ignored
+   * @returns Paths relative to dir, or null outside a repository
+   */
+  async getUncommittedFiles(
+    dir: string = process.cwd()
+  ): Promise<Set<string> | null> {
+    if (!(await this.isGitRepository(dir))) return null;
+
+    const files = new Set(await this.getUntrackedFiles(dir));
+
+    try {
+      const { stdout } = await execFileAsync(
+        "git",
+        ["diff", "--name-only", "-z", "--relative", "HEAD"],
+        { cwd: dir, maxBuffer: 64 * 1024 * 1024 }
+      );
+      stdout
+        .split("\0")
+        .filter(Boolean)
+        .forEach((file) => files.add(file));
+    } catch (error) {
+      // No commit yet, every file is untracked
+      logger.debug("Could not diff against HEAD:", error);
+    }
+
+    return files;
+  },
+
+  /**
+   * Commits the given files only, leaving other changes uncommitted
+   * @returns The hash of the new commit
+   */
+  async commitFiles(
+    files: string[],
+    message: string,
+    dir: string = process.cwd()
+  ): Promise<string> {
+    // Deleted and moved files are committed from the working tree without add
+    const existing: string[] = [];
+    for (const file of files) {
+      try {
+        await fs.access(path.join(dir, file));
+        existing.push(file);
+      } catch {
+        // Not on disk anymore
+      }
+    }
+
+    if (existing.length > 0) {
+      await execFileAsync("git", ["add", "--", ...existing], { cwd: dir });
+    }
+    await execFileAsync(
+      "git",
+      ["commit", "--only", "-m", message, "--", ...files],
+      { cwd: dir }
+    );
+
+    const { stdout } = await execAsync("git rev-parse HEAD", { cwd: dir });
+    return stdout.trim();
+  },
+
+  /**
+   * Generates a commit message from a query and the API output summary
+   */
+  createCommitMessage(query: string, output: string = ""): string {
+    const firstLine = query.split("\n")[0].trim();
+    const subject =
+      firstLine.length > MAX_COMMIT_SUBJECT_LENGTH
+        ? `${firstLine.slice(0, MAX_COMMIT_SUBJECT_LENGTH - 3)}...`
+        : firstLine;
+
+    // Keep the prose of the output, without code blocks or JSON file specs
+    const summary = output
+      .replace(/```[\s\S]*?```/g, "")
+      .split(/\n\s*\n/)
+      .map((paragraph) => paragraph.trim())
+      .filter((paragraph) => paragraph && !paragraph.startsWith("["))
+      .slice(0, 3)
+      .join("\n\n");
+
+    let message = subject;
+    if (firstLine !== query.trim() || subject !== firstLine) {
+      message += `\n\nQuery: ${query.trim()}`;
+    }
+    if (summary) {
+      message += `\n\n${summary}`;
+    }
+
+    return `${message}\n\nGenerated by zhankai`;
+  },
 };
@@ -0,0 +1,163 @@
+import fs from "fs/promises";
+import path from "path";
+import ignore from "ignore";
+import { gitUtils } from "./git";
+import { IgnoreRules } from "./types";
+
+type IgnoreInstance = ReturnType<typeof ignore>;
+
+/**
+ * Reads an ignore file
+ * @returns Its rules, or null if it doesn't exist
+ */
+const readIgnoreFile = async (
+  filePath: string
+): Promise<IgnoreInstance | null> => {
+  try {
+    return ignore().add(await fs.readFile(filePath, "utf8"));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Converts a relative path to the forward slashes of ignore patterns
+ */
+const toPosix = (relativePath: string): string =>
+  relativePath.split(path.sep).join("/");
+
+/**
+ * Gitignore utilities namespace
+ */
+export const gitignoreUtils = {
+  /**
+   * Creates ignore rules following git: the .gitignore file of a directory
+   * applies below it and overrides the files of its parents, which override
+   * .git/info/exclude, which overrides the user's core.excludesFile
+   * @param baseDir Root of the export, anywhere in the repository
+   * @param extra Rules always leaving paths out, whatever git says
+   */
+  async createGitRules(
+    baseDir: string,
+    extra: IgnoreInstance
+  ): Promise<IgnoreRules> {
+    const repo = await gitUtils.getRepoPaths(baseDir);
+    const topLevel = await fs.realpath(repo ? repo.topLevel : baseDir);
+    // Paths are matched from the repository root, even when exporting a subdirectory
+    const prefix = toPosix(path.relative(topLevel, await fs.realpath(baseDir)));
+    const toRepoPath = (relativePath: string) =>
+      prefix ? `${prefix}/${relativePath}` : relativePath;
+
+    const globals: IgnoreInstance[] = [];
+    if (repo) {
+      for (const filePath of [
+        path.join(repo.gitDir, "info", "exclude"),
+        await gitUtils.getExcludesFile(baseDir),
+      ]) {
+        const rules = await readIgnoreFile(filePath);
+        if (rules) globals.push(rules);
+      }
+    }
+
+    // Rules of each directory by path from the repository root
+    const directories = new Map<string, IgnoreInstance | null>();
+    const loading = new Map<string, Promise<void>>();
+
+    const loadRepoDirectory = (repoDir: string): Promise<void> => {
+      if (!loading.has(repoDir)) {
+        loading.set(
+          repoDir,
+          readIgnoreFile(path.join(topLevel, repoDir, ".gitignore")).then(
+            (rules) => {
+              directories.set(repoDir, rules);
+            }
+          )
+        );
+      }
+
+      return loading.get(repoDir)!;
+    };
+
+    // The .gitignore files above the export root apply to it too
+    const segments = prefix ? prefix.split("/") : [];
+    for (let depth = 0; depth <= segments.length; depth++) {
+      await loadRepoDirectory(segments.slice(0, depth).join("/"));
+    }
+
+    return {
+      loadDirectory(relativeDir) {
+        return loadRepoDirectory(
+          toRepoPath(toPosix(relativeDir)).replace(/\/$/, "")
+        );
+      },
+
+      ignores(relativePath) {
+        if (extra.ignores(relativePath)) return true;
+
+        const repoPath = toRepoPath(relativePath);
+        const suffix = repoPath.endsWith("/") ? "/" : "";
+        const parts = repoPath.replace(/\/$/, "").split("/");
+
+        // The deepest ignore file with a matching pattern decides
+        for (let depth = parts.length - 1; depth >= 0; depth--) {
+          const rules = directories.get(parts.slice(0, depth).join("/"));
+          if (!rules) continue;
+
+          const result = rules.test(parts.slice(depth).join("/") + suffix);
+          if (result.ignored) return true;
+          if (result.unignored) return false;
+        }
+
+        for (const rules of globals) {
+          const result = rules.test(repoPath);
+          if (result.ignored) return true;
+          if (result.unignored) return false;
+        }
+
+        return false;
+      },
+    };
+  },
+
+  /**
+   * Creates ignore rules leaving out every path git ls-files does not list
+   * @param baseDir Root of the export, anywhere in the repository
+   * @param extra Rules always leaving paths out, whatever git says
+   * @throws If baseDir is not inside a git repository
+   */
+  async createTrackedRules(
+    baseDir: string,
+    extra: IgnoreInstance
+  ): Promise<IgnoreRules> {
+    let files: string[];
+    try {
+      files = await gitUtils.listFiles(baseDir);
+    } catch {
+      throw new Error(`--respect-git needs a git repository: ${baseDir}`);
+    }
+
+    const directories = new Set<string>();
+    for (const file of files) {
+      const parts = file.split("/");
+      for (let depth = 1; depth < parts.length; depth++) {
+        directories.add(parts.slice(0, depth).join("/"));
+      }
+    }
+    const fileSet = new Set(files);
+
+    return {
+      async loadDirectory() {
+        // Git already applied its ignore files
+      },
+
+      ignores(relativePath) {
+        if (extra.ignores(relativePath)) return true;
+
+        const posixPath = toPosix(relativePath);
+        return posixPath.endsWith("/")
+          ? !directories.has(posixPath.slice(0, -1))
+          : !fileSet.has(posixPath);
+      },
+    };
+  },
+};
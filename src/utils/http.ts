@@ -0,0 +1,166 @@
+import { HttpRequestOptions } from "./types";
+
+/** Statuses worth retrying: request timeout, rate limit and server errors */
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Waits for a delay, or until the signal aborts
+ */
+const sleep = (delay: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal?.reason);
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delay);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Computes the exponential backoff before a retry, with jitter so that
+ * clients failing together do not retry together
+ * @param retry Number of the retry, from 1
+ */
+const backoffDelay = (retry: number, options: HttpRequestOptions): number => {
+  const delay = Math.min(
+    options.maxRetryDelay,
+    options.retryDelay * 2 ** (retry - 1)
+  );
+
+  // Equal jitter keeps at least half of the delay
+  return Math.round(delay / 2 + (Math.random() * delay) / 2);
+};
+
+/**
+ * Sends one attempt of a request, aborted when the deadline passes or the
+ * signal aborts
+ */
+const sendAttempt = async (
+  url: string,
+  init: RequestInit,
+  deadlineAt: number,
+  signal?: AbortSignal
+): Promise<Response> => {
+  if (signal?.aborted) throw signal.reason;
+
+  const controller = new AbortController();
+  // Kept after the response arrives, so the signal also aborts reading it
+  const onAbort = () => controller.abort(signal?.reason);
+  signal?.addEventListener("abort", onAbort, { once: true });
+
+  const timeoutId = setTimeout(
+    () => controller.abort(new DOMException("Deadline passed", "TimeoutError")),
+    Math.max(0, deadlineAt - Date.now())
+  );
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    signal?.removeEventListener("abort", onAbort);
+    throw error;
+  } finally {
+    // The deadline covers waiting for the response, not reading a streamed body
+    clearTimeout(timeoutId);
+  }
+};
+
+/**
+ * HTTP utilities namespace
+ */
+export const httpUtils = {
+  /**
+   * Sends a request, retrying network errors, rate limits and server errors
+   * with exponential backoff or after the delay given by Retry-After, until
+   * the attempts or the deadline run out
+   * @returns The first response that is not retried, or the last one
+   */
+  async request(
+    url: string,
+    init: RequestInit & { headers?: Record<string, string> },
+    options: HttpRequestOptions
+  ): Promise<Response> {
+    const deadlineAt = Date.now() + options.deadline;
+    const headers = options.idempotencyKey
+      ? { ...init.headers, "idempotency-key": options.idempotencyKey }
+      : init.headers;
+
+    for (let attempt = 1; ; attempt++) {
+      let response: Response | null = null;
+      let reason: string;
+
+      try {
+        response = await sendAttempt(
+          url,
+          { ...init, headers },
+          deadlineAt,
+          options.signal
+        );
+        if (response.ok || !RETRYABLE_STATUSES.includes(response.status)) {
+          return response;
+        }
+        reason = `status ${response.status}`;
+      } catch (error: any) {
+        if (options.signal?.aborted) throw options.signal.reason;
+
+        if (error?.name === "TimeoutError") {
+          throw new Error(
+            `Request timed out after ${options.deadline / 1000} seconds`
+          );
+        }
+        reason = error?.cause?.message || error?.message || String(error);
+      }
+
+      const retryAfter = response
+        ? this.parseRetryAfter(response.headers.get("retry-after"))
+        : null;
+      const delay = retryAfter ?? backoffDelay(attempt, options);
+      const outOfTime = Date.now() + delay >= deadlineAt;
+
+      if (attempt >= options.maxAttempts || outOfTime) {
+        if (response) return response;
+
+        throw new Error(
+          `Request failed after ${attempt} attempt(s)${
+            outOfTime && attempt < options.maxAttempts
+              ? ", no time left to retry"
+              : ""
+          }: ${reason}`
+        );
+      }
+
+      // Free the connection of the failed attempt
+      await response?.body?.cancel().catch(() => undefined);
+
+      options.onRetry?.({ attempt: attempt + 1, delay, reason });
+      await sleep(delay, options.signal);
+    }
+  },
+
+  /**
+   * Parses a Retry-After header, given in seconds or as an HTTP date
+   * @returns The delay to wait in milliseconds, null if the header is
+   * missing or invalid
+   */
+  parseRetryAfter(
+    value: string | null,
+    now: number = Date.now()
+  ): number | null {
+    if (!value || !value.trim()) return null;
+
+    if (/^\d+$/.test(value.trim())) {
+      return parseInt(value.trim(), 10) * 1000;
+    }
+
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - now);
+  },
+};
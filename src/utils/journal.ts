@@ -0,0 +1,254 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { constants } from "../config/constants";
+import { logger } from "../ui/logger";
+import { gitUtils } from "./git";
+import { JournalEntry, QueryJournal } from "./types";
+
+/**
+ * Gets the directory holding the change journals of the current repository
+ */
+const getJournalDir = (): string =>
+  path.join(process.cwd(), constants.ZHANKAI_DIR, constants.JOURNAL_DIR);
+
+/**
+ * Reads a file, returning null if it doesn't exist
+ */
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Reads a file as bytes, returning null if it doesn't exist
+ */
+const readBytesIfExists = async (filePath: string): Promise<Buffer | null> => {
+  try {
+    return await fs.readFile(filePath);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Checks whether a file still holds what a journal entry left in it
+ * @param current Current bytes of the file, null if it doesn't exist
+ */
+const isUnchanged = (entry: JournalEntry, current: Buffer | null): boolean => {
+  // Journals written before hashes were recorded compare the text
+  if (entry.newHash === undefined) {
+    return (
+      (current === null ? null : current.toString("utf8")) ===
+      (entry.deleted ? null : entry.newContent)
+    );
+  }
+
+  const currentHash =
+    current === null
+      ? null
+      : crypto.createHash("sha256").update(current).digest("hex");
+  return currentHash === entry.newHash;
+};
+
+/**
+ * Gets the bytes a file held before a journal entry changed it
+ */
+const getOriginalBytes = (entry: JournalEntry): Buffer =>
+  Buffer.from(
+    entry.originalContent ?? "",
+    entry.encoding === "base64" ? "base64" : "utf8"
+  );
+
+/**
+ * Change journal utilities namespace
+ */
+export const journalUtils = {
+  /**
+   * Creates a sortable identifier for a new query
+   */
+  createQueryId(): string {
+    const timestamp = new Date()
+      .toISOString()
+      .replace(/[-:T]/g, "")
+      .slice(0, 14);
+    return `${timestamp}-${crypto.randomBytes(2).toString("hex")}`;
+  },
+
+  /**
+   * Saves the journal of a query, replacing any previous version
+   */
+  async saveJournal(journal: QueryJournal): Promise<void> {
+    const journalDir = getJournalDir();
+    await fs.mkdir(journalDir, { recursive: true });
+    await fs.writeFile(
+      path.join(journalDir, `${journal.queryId}.json`),
+      JSON.stringify(journal, null, 2),
+      "utf8"
+    );
+  },
+
+  /**
+   * Appends applied file changes to the journal of a query
+   */
+  async recordChanges(
+    queryId: string,
+    entries: JournalEntry[],
+    query?: string
+  ): Promise<void> {
+    const existing = await this.getJournal(queryId);
+
+    // A proposal applied again after being undone starts a new journal
+    const journal =
+      existing && !existing.undoneAt
+        ? existing
+        : {
+            queryId,
+            query,
+            timestamp: new Date().toISOString(),
+            entries: [],
+          };
+
+    journal.entries.push(...entries);
+    await this.saveJournal(journal);
+    logger.debug(`Recorded ${entries.length} change(s) for query ${queryId}`);
+  },
+
+  /**
+   * Gets the journal of a query
+   */
+  async getJournal(queryId: string): Promise<QueryJournal | null> {
+    const content = await readIfExists(
+      path.join(getJournalDir(), `${queryId}.json`)
+    );
+    return content ? JSON.parse(content) : null;
+  },
+
+  /**
+   * Lists all journals, most recent first
+   */
+  async listJournals(): Promise<QueryJournal[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(getJournalDir());
+    } catch {
+      return [];
+    }
+
+    const journals: QueryJournal[] = [];
+    for (const file of files.filter((f) => f.endsWith(".json")).sort()) {
+      const journal = await this.getJournal(path.basename(file, ".json"));
+      if (journal) journals.push(journal);
+    }
+
+    return journals.reverse();
+  },
+
+  /**
+   * Restores the repository to its state before a query was applied
+   * @param queryId Query to undo, defaults to the most recent one not undone yet
+   * @param force Restore files even if they changed since the query
+   * @returns The undone journal, or null if there was nothing to undo
+   */
+  async undo(
+    queryId?: string,
+    force: boolean = false
+  ): Promise<QueryJournal | null> {
+    const journal = queryId
+      ? await this.getJournal(queryId)
+      : (await this.listJournals()).find((j) => !j.undoneAt) || null;
+
+    if (!journal) {
+      logger.error(
+        queryId ? `No journal found for query ${queryId}` : "Nothing to undo"
+      );
+      return null;
+    }
+
+    if (journal.undoneAt) {
+      logger.warn(
+        `Query ${journal.queryId} was already undone on ${journal.undoneAt}`
+      );
+      return null;
+    }
+
+    const baseDir = process.cwd();
+
+    // Files must still hold what the latest change to them wrote
+    const latestEntries = new Map<string, JournalEntry>();
+    for (const entry of journal.entries) {
+      latestEntries.set(entry.fileName, entry);
+    }
+
+    const modified: string[] = [];
+    for (const entry of latestEntries.values()) {
+      const current = await readBytesIfExists(
+        path.join(baseDir, entry.fileName)
+      );
+      if (!isUnchanged(entry, current)) modified.push(entry.fileName);
+    }
+
+    if (modified.length > 0) {
+      if (!force) {
+        logger.error(
+          `Not undoing query ${journal.queryId}, file(s) changed since: ${modified.join(
+            ", "
+          )}. Undo with --force to restore them anyway`
+        );
+        return null;
+      }
+      logger.warn(
+        `File(s) changed since query ${journal.queryId}, restoring anyway: ${modified.join(
+          ", "
+        )}`
+      );
+    }
+
+    // Revert in reverse order so repeated changes to a file end on the oldest content
+    for (const entry of [...journal.entries].reverse()) {
+      const filePath = path.join(baseDir, entry.fileName);
+
+      if (entry.deleted) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, getOriginalBytes(entry));
+        logger.info(`Restored deleted file: ${entry.fileName}`);
+      } else if (entry.renamedFrom) {
+        const originalPath = path.join(baseDir, entry.renamedFrom);
+        await fs.mkdir(path.dirname(originalPath), { recursive: true });
+
+        // Moving back with git mv unstages the rename
+        if ((await readBytesIfExists(filePath)) !== null) {
+          await gitUtils.moveFile(entry.fileName, entry.renamedFrom, baseDir);
+        }
+        await fs.writeFile(originalPath, getOriginalBytes(entry));
+        logger.info(
+          `Renamed file back: ${entry.fileName} → ${entry.renamedFrom}`
+        );
+      } else if (entry.created) {
+        await fs.rm(filePath, { force: true });
+        logger.info(`Deleted file: ${entry.fileName}`);
+      } else {
+        await fs.writeFile(filePath, getOriginalBytes(entry));
+        logger.info(`Restored file: ${entry.fileName}`);
+      }
+
+      // Remove created directories, deepest first, as long as they're empty
+      for (const dir of [...entry.createdDirs].reverse()) {
+        try {
+          await fs.rmdir(path.join(baseDir, dir));
+          logger.info(`Removed directory: ${dir}`);
+        } catch {
+          logger.debug(`Could not remove directory ${dir}, keeping it`);
+        }
+      }
+    }
+
+    journal.undoneAt = new Date().toISOString();
+    await this.saveJournal(journal);
+
+    return journal;
+  },
+};
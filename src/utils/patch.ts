@@ -0,0 +1,448 @@
+import fs from "fs/promises";
+import path from "path";
+import { logger } from "../ui/logger";
+import {
+  FailedEdit,
+  FileChangeSpec,
+  FileToUpdate,
+  SearchReplaceEdit,
+} from "./types";
+
+/** Most context lines dropped from each end of a hunk that does not match */
+const MAX_FUZZ = 2;
+
+/**
+ * Outcome of applying a patch to a file
+ */
+interface PatchResult {
+  /** Patched content */
+  content: string;
+
+  /** Number of hunks or edits applied */
+  applied: number;
+
+  /** Hunks or edits that could not be applied */
+  failed: FailedEdit[];
+}
+
+/**
+ * Line of a unified diff hunk
+ */
+interface HunkLine {
+  type: "context" | "remove" | "add";
+  text: string;
+}
+
+/**
+ * Hunk of a unified diff
+ */
+interface Hunk {
+  /** Line of the file where the hunk starts, from 0, if the header tells */
+  oldStart?: number;
+
+  lines: HunkLine[];
+}
+
+/**
+ * Ways of comparing a line of a patch with a line of the file, from the
+ * strictest to the most lenient
+ */
+const LINE_MATCHERS: ((a: string, b: string) => boolean)[] = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.trim() === b.trim(),
+];
+
+/**
+ * Splits content into lines, remembering whether it ends with a newline
+ */
+const splitContent = (
+  content: string
+): { lines: string[]; trailingNewline: boolean } => {
+  if (content === "") return { lines: [], trailingNewline: true };
+
+  const lines = content.split("\n");
+  const trailingNewline = lines[lines.length - 1] === "";
+  if (trailingNewline) lines.pop();
+
+  return { lines, trailingNewline };
+};
+
+/**
+ * Finds the positions of a block of lines in a file
+ * @returns Indexes of the first line of each match
+ */
+const findBlock = (
+  lines: string[],
+  block: string[],
+  matches: (a: string, b: string) => boolean
+): number[] => {
+  const found: number[] = [];
+
+  for (let start = 0; start + block.length <= lines.length; start++) {
+    if (block.every((line, offset) => matches(lines[start + offset], line))) {
+      found.push(start);
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Parses the hunks of a unified diff, ignoring its file headers
+ */
+const parseUnifiedDiff = (diff: string): Hunk[] => {
+  const hunks: Hunk[] = [];
+  let hunk: Hunk | null = null;
+
+  for (const line of splitContent(diff).lines) {
+    if (line.startsWith("@@")) {
+      const header = line.match(/^@@ -(\d+)(?:,(\d+))? \+\d+(?:,\d+)? @@/);
+      hunk = {
+        // An empty range starts after the given line
+        oldStart: header
+          ? Math.max(0, Number(header[1]) - (header[2] === "0" ? 0 : 1))
+          : undefined,
+        lines: [],
+      };
+      hunks.push(hunk);
+    } else if (!hunk || line.startsWith("\\")) {
+      // Headers, or "\ No newline at end of file"
+      continue;
+    } else if (line.startsWith("+")) {
+      hunk.lines.push({ type: "add", text: line.slice(1) });
+    } else if (line.startsWith("-")) {
+      hunk.lines.push({ type: "remove", text: line.slice(1) });
+    } else {
+      // Models often drop the space of empty context lines
+      hunk.lines.push({ type: "context", text: line.slice(1) });
+    }
+  }
+
+  return hunks;
+};
+
+/**
+ * Drops context lines from both ends of a hunk
+ */
+const trimContext = (lines: HunkLine[], count: number): HunkLine[] => {
+  let start = 0;
+  let end = lines.length;
+
+  for (let i = 0; i < count && lines[start]?.type === "context"; i++) start++;
+  for (let i = 0; i < count && lines[end - 1]?.type === "context"; i++) end--;
+
+  return lines.slice(start, end);
+};
+
+/**
+ * Applies a hunk to the lines of a file, matching its context as strictly
+ * as possible
+ * @param hint Line where the hunk is expected, preferred among several matches
+ * @returns The patched lines and where the hunk ends, or the reason of failure
+ */
+const applyHunk = (
+  lines: string[],
+  hunkLines: HunkLine[],
+  hint: number
+): { lines: string[]; end: number } | { error: string } => {
+  for (let fuzz = 0; fuzz <= MAX_FUZZ; fuzz++) {
+    const trimmed = trimContext(hunkLines, fuzz);
+    if (fuzz > 0 && trimmed.length === hunkLines.length) break;
+
+    const oldBlock = trimmed
+      .filter((line) => line.type !== "add")
+      .map((line) => line.text);
+
+    // Pure additions go where the header says
+    if (oldBlock.length === 0) {
+      if (fuzz > 0) break;
+
+      const at = Math.min(hint, lines.length);
+      const added = trimmed.map((line) => line.text);
+      return {
+        lines: [...lines.slice(0, at), ...added, ...lines.slice(at)],
+        end: at + added.length,
+      };
+    }
+
+    for (const matches of LINE_MATCHERS) {
+      const found = findBlock(lines, oldBlock, matches);
+      if (found.length === 0) continue;
+
+      const start = found.reduce((best, index) =>
+        Math.abs(index - hint) < Math.abs(best - hint) ? index : best
+      );
+
+      // Context lines keep their content in the file, such as its indentation
+      const patched: string[] = [];
+      let index = start;
+      for (const line of trimmed) {
+        if (line.type === "context") patched.push(lines[index++]);
+        else if (line.type === "remove") index++;
+        else patched.push(line.text);
+      }
+
+      return {
+        lines: [...lines.slice(0, start), ...patched, ...lines.slice(index)],
+        end: start + patched.length,
+      };
+    }
+  }
+
+  return { error: "its context was not found in the file" };
+};
+
+/**
+ * Patch utilities namespace
+ */
+export const patchUtils = {
+  /**
+   * Applies a unified diff to a file, hunk by hunk
+   * @returns The patched content, and the hunks that could not be applied
+   */
+  applyUnifiedDiff(content: string, diff: string): PatchResult {
+    const { lines: original, trailingNewline } = splitContent(content);
+    const hunks = parseUnifiedDiff(diff);
+    const failed: FailedEdit[] = [];
+
+    if (hunks.length === 0) {
+      return {
+        content,
+        applied: 0,
+        failed: [{ index: 1, reason: "the diff has no @@ hunk" }],
+      };
+    }
+
+    let lines = original;
+    let applied = 0;
+    // Lines added or removed by the hunks applied so far
+    let shift = 0;
+    let position = 0;
+
+    hunks.forEach((hunk, index) => {
+      const hint =
+        hunk.oldStart === undefined ? position : hunk.oldStart + shift;
+      const result = applyHunk(lines, hunk.lines, hint);
+
+      if ("error" in result) {
+        failed.push({ index: index + 1, reason: result.error });
+        return;
+      }
+
+      applied++;
+      shift += result.lines.length - lines.length;
+      position = result.end;
+      lines = result.lines;
+    });
+
+    return {
+      content:
+        lines.join("\n") + (trailingNewline && lines.length > 0 ? "\n" : ""),
+      applied,
+      failed,
+    };
+  },
+
+  /**
+   * Replaces blocks of a file, edit by edit
+   * @returns The edited content, and the edits that could not be applied
+   */
+  applySearchReplace(content: string, edits: SearchReplaceEdit[]): PatchResult {
+    const failed: FailedEdit[] = [];
+    let edited = content;
+
+    edits.forEach(({ search, replace }, index) => {
+      const fail = (reason: string) =>
+        failed.push({ index: index + 1, reason });
+
+      if (search === "") {
+        // An empty search block creates a file
+        if (edited === "") edited = replace;
+        else fail("its search block is empty");
+        return;
+      }
+
+      const first = edited.indexOf(search);
+      if (first !== -1) {
+        if (edited.indexOf(search, first + 1) !== -1) {
+          fail("its search block matches several places");
+        } else {
+          edited =
+            edited.slice(0, first) +
+            replace +
+            edited.slice(first + search.length);
+        }
+        return;
+      }
+
+      // Fall back to lines, forgiving differences of whitespace
+      const { lines, trailingNewline } = splitContent(edited);
+      const searchLines = splitContent(search).lines;
+
+      for (const matches of LINE_MATCHERS.slice(1)) {
+        const found = findBlock(lines, searchLines, matches);
+        if (found.length === 0) continue;
+
+        if (found.length > 1) {
+          fail("its search block matches several places");
+          return;
+        }
+
+        lines.splice(
+          found[0],
+          searchLines.length,
+          ...splitContent(replace).lines
+        );
+        edited = lines.join("\n") + (trailingNewline ? "\n" : "");
+        return;
+      }
+
+      fail("its search block was not found in the file");
+    });
+
+    return {
+      content: edited,
+      applied: edits.length - failed.length,
+      failed,
+    };
+  },
+
+  /**
+   * Turns a proposed file change into the full content to write
+   * @param currentContent Content of the file, null if it doesn't exist
+   * @returns The file update, null if any part of the patch failed without
+   * full content to fall back on, and the parts of the patch that failed
+   */
+  resolveFileChange(
+    spec: FileChangeSpec,
+    currentContent: string | null
+  ): { fileSpec: FileToUpdate | null; failed: FailedEdit[] } {
+    if (spec.diff === undefined && spec.edits === undefined) {
+      return {
+        fileSpec:
+          spec.fileContent === undefined
+            ? null
+            : { fileName: spec.fileName, fileContent: spec.fileContent },
+        failed: [],
+      };
+    }
+
+    const result =
+      spec.diff !== undefined
+        ? this.applyUnifiedDiff(currentContent ?? "", spec.diff)
+        : this.applySearchReplace(currentContent ?? "", spec.edits || []);
+
+    // A half-patched file is never written, the full content replaces it
+    // when the model provided it
+    if (result.failed.length > 0) {
+      return {
+        fileSpec:
+          spec.fileContent === undefined
+            ? null
+            : { fileName: spec.fileName, fileContent: spec.fileContent },
+        failed: result.failed,
+      };
+    }
+
+    return {
+      fileSpec:
+        result.applied > 0
+          ? { fileName: spec.fileName, fileContent: result.content }
+          : null,
+      failed: result.failed,
+    };
+  },
+
+  /**
+   * Turns the file changes proposed by the model into full contents, applying
+   * patches to the files of the working tree
+   * @returns The file updates to review, and the parts of patches that failed
+   */
+  async resolveFileChanges(specs: FileChangeSpec[]): Promise<{
+    fileSpecs: FileToUpdate[];
+    failed: (FailedEdit & { fileName: string })[];
+  }> {
+    const fileSpecs: FileToUpdate[] = [];
+    const failed: (FailedEdit & { fileName: string })[] = [];
+
+    for (const spec of specs) {
+      if (spec.operation === "delete") {
+        fileSpecs.push({
+          fileName: spec.fileName,
+          fileContent: "",
+          operation: "delete",
+        });
+        continue;
+      }
+
+      const renamed = spec.operation === "rename";
+      let currentContent: string | null = null;
+      if (
+        spec.operation !== undefined ||
+        spec.diff !== undefined ||
+        spec.edits !== undefined
+      ) {
+        try {
+          currentContent = await fs.readFile(
+            path.join(process.cwd(), spec.fileName),
+            "utf8"
+          );
+        } catch {
+          // Patches may create files
+        }
+      }
+
+      if (renamed && currentContent === null) {
+        logger.warn(`Cannot rename ${spec.fileName}, it does not exist`);
+        continue;
+      }
+
+      // A create must not overwrite a file, a modify must not create one
+      if (spec.operation === "create" && currentContent !== null) {
+        failed.push({
+          fileName: spec.fileName,
+          index: 0,
+          reason: "it cannot be created, it already exists",
+        });
+        continue;
+      }
+      if (spec.operation === "modify" && currentContent === null) {
+        failed.push({
+          fileName: spec.fileName,
+          index: 0,
+          reason: "it cannot be modified, it does not exist",
+        });
+        continue;
+      }
+
+      const result = this.resolveFileChange(spec, currentContent);
+      if (result.failed.length > 0 && spec.fileContent === undefined) {
+        logger.warn(
+          `Skipping ${spec.fileName}, its patch does not fully apply`
+        );
+      } else if (renamed) {
+        // A rename keeps the current content unless it is changed too
+        fileSpecs.push({
+          fileName: spec.fileName,
+          fileContent: result.fileSpec?.fileContent ?? currentContent ?? "",
+          operation: "rename",
+          newFileName: spec.newFileName,
+        });
+      } else if (result.fileSpec) {
+        fileSpecs.push(result.fileSpec);
+      }
+
+      if (result.failed.length > 0 && spec.fileContent !== undefined) {
+        logger.warn(
+          `The patch of ${spec.fileName} does not apply, using its full content instead`
+        );
+      }
+      failed.push(
+        ...result.failed.map((edit) => ({ fileName: spec.fileName, ...edit }))
+      );
+    }
+
+    return { fileSpecs, failed };
+  },
+};
@@ -0,0 +1,161 @@
+import os from "os";
+import path from "path";
+import { existsSync, realpathSync } from "fs";
+import { FileToUpdate, PathCheckResult, RejectedFileUpdate } from "./types";
+
+/** Directory names that API responses are never allowed to write into */
+const PROTECTED_DIRS = [".git", "node_modules"];
+
+/**
+ * Checks whether a path is equal to or inside a directory
+ */
+const isInside = (target: string, dir: string): boolean => {
+  const relative = path.relative(dir, target);
+  // Names such as "..foo" stay inside
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  );
+};
+
+/**
+ * Finds the protected directory a path relative to the repository root goes
+ * into, ignoring case since ".GIT" is ".git" on macOS and Windows
+ */
+const findProtectedDir = (relativePath: string): string | undefined => {
+  const segments = relativePath.toLowerCase().split(/[\\/]/);
+  return PROTECTED_DIRS.find((dir) => segments.includes(dir));
+};
+
+/**
+ * Resolves symlinks in the deepest existing part of a path
+ */
+const resolveExisting = (target: string): string => {
+  let existing = target;
+  const rest: string[] = [];
+
+  while (!existsSync(existing)) {
+    const parent = path.dirname(existing);
+    if (parent === existing) break;
+    rest.unshift(path.basename(existing));
+    existing = parent;
+  }
+
+  try {
+    return path.join(realpathSync(existing), ...rest);
+  } catch {
+    return target;
+  }
+};
+
+/**
+ * Path policy utilities namespace
+ */
+export const pathPolicyUtils = {
+  /**
+   * Gets the user-level Zhankai directory holding credentials
+   */
+  getCredentialsDir(): string {
+    const homeDir = process.env.HOME || process.env.USERPROFILE || os.homedir();
+    return path.join(homeDir, ".zhankai");
+  },
+
+  /**
+   * Checks whether an API response is allowed to write to a path
+   * @param fileName Path proposed by the API
+   * @param baseDir Repository root the path must stay in
+   */
+  checkPath(
+    fileName: string,
+    baseDir: string = process.cwd()
+  ): PathCheckResult {
+    if (!fileName || !fileName.trim()) {
+      return { allowed: false, reason: "empty file name" };
+    }
+
+    if (fileName.includes("\0")) {
+      return { allowed: false, reason: "file name contains a null byte" };
+    }
+
+    if (path.isAbsolute(fileName) || /^[a-zA-Z]:[\\/]/.test(fileName)) {
+      return { allowed: false, reason: "absolute paths are not allowed" };
+    }
+
+    const root = path.resolve(baseDir);
+    const target = path.resolve(root, fileName);
+
+    if (!isInside(target, root) || target === root) {
+      return { allowed: false, reason: "path escapes the repository root" };
+    }
+
+    const protectedDir = findProtectedDir(path.relative(root, target));
+    if (protectedDir) {
+      return {
+        allowed: false,
+        reason: `writing into ${protectedDir} is not allowed`,
+      };
+    }
+
+    if (isInside(target, path.resolve(this.getCredentialsDir()))) {
+      return {
+        allowed: false,
+        reason: "writing into the credentials directory is not allowed",
+      };
+    }
+
+    // Follow symlinks in the existing part of the path
+    const realRoot = resolveExisting(root);
+    const realTarget = resolveExisting(target);
+    if (!isInside(realTarget, realRoot)) {
+      return {
+        allowed: false,
+        reason: "path goes through a symlink pointing outside the repository",
+      };
+    }
+
+    const protectedRealDir = findProtectedDir(
+      path.relative(realRoot, realTarget)
+    );
+    if (protectedRealDir) {
+      return {
+        allowed: false,
+        reason: `path goes through a symlink into ${protectedRealDir}`,
+      };
+    }
+
+    return { allowed: true, filePath: target };
+  },
+
+  /**
+   * Splits file updates into allowed and rejected ones
+   */
+  filterFileUpdates(
+    fileSpecs: FileToUpdate[],
+    baseDir: string = process.cwd()
+  ): { allowed: FileToUpdate[]; rejected: RejectedFileUpdate[] } {
+    const allowed: FileToUpdate[] = [];
+    const rejected: RejectedFileUpdate[] = [];
+
+    for (const fileSpec of fileSpecs) {
+      // Renames must be allowed to touch both paths
+      const fileNames = [fileSpec.fileName, fileSpec.newFileName].filter(
+        (fileName): fileName is string => fileName !== undefined
+      );
+      const failure = fileNames
+        .map((fileName) => ({ fileName, ...this.checkPath(fileName, baseDir) }))
+        .find((result) => !result.allowed);
+
+      if (!failure) {
+        allowed.push(fileSpec);
+      } else {
+        rejected.push({
+          fileName: failure.fileName,
+          reason: failure.reason || "path not allowed",
+        });
+      }
+    }
+
+    return { allowed, rejected };
+  },
+};
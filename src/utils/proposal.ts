@@ -0,0 +1,217 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { colors, constants } from "../config/constants";
+import { logger } from "../ui/logger";
+import { diffUtils } from "./diff";
+import { FileToUpdate, Proposal, ProposedFile } from "./types";
+
+/** File of a proposal directory describing its changes */
+const PROPOSAL_FILE = "proposal.json";
+
+/** Subdirectory of a proposal directory holding the proposed contents */
+const FILES_DIR = "files";
+
+/**
+ * Gets the directory holding the proposals of the current repository
+ */
+const getProposalsDir = (): string =>
+  path.join(process.cwd(), constants.ZHANKAI_DIR, constants.PROPOSALS_DIR);
+
+/**
+ * Reads a file, returning null if it doesn't exist
+ */
+const readIfExists = async (filePath: string): Promise<string | null> => {
+  try {
+    return await fs.readFile(filePath, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Computes the SHA-256 of a file content, null if the file doesn't exist
+ */
+const hashContent = (content: string | null): string | null =>
+  content === null
+    ? null
+    : crypto.createHash("sha256").update(content).digest("hex");
+
+/**
+ * Proposal utilities namespace
+ */
+export const proposalUtils = {
+  /**
+   * Compares proposed file updates with the working tree
+   */
+  async describeChanges(fileSpecs: FileToUpdate[]): Promise<ProposedFile[]> {
+    const baseDir = process.cwd();
+    const files: ProposedFile[] = [];
+
+    for (const fileSpec of fileSpecs) {
+      const currentContent = await readIfExists(
+        path.join(baseDir, fileSpec.fileName)
+      );
+      const { added, removed } = diffUtils.countChanges(
+        currentContent,
+        fileSpec.fileContent
+      );
+
+      files.push({
+        fileName: fileSpec.fileName,
+        change:
+          fileSpec.operation === "delete"
+            ? "deleted"
+            : fileSpec.operation === "rename"
+            ? "renamed"
+            : currentContent === null
+            ? "created"
+            : currentContent === fileSpec.fileContent
+            ? "unchanged"
+            : "modified",
+        newFileName: fileSpec.newFileName,
+        added,
+        removed,
+        baseHash: hashContent(currentContent),
+      });
+    }
+
+    return files;
+  },
+
+  /**
+   * Saves proposed file updates without touching the working tree
+   * @param summary Output of the API, used in commit messages in branch mode
+   */
+  async saveProposal(
+    id: string,
+    fileSpecs: FileToUpdate[],
+    query?: string,
+    summary: string = ""
+  ): Promise<Proposal> {
+    const proposalDir = path.join(getProposalsDir(), id);
+    const proposal: Proposal = {
+      id,
+      query,
+      timestamp: new Date().toISOString(),
+      summary,
+      files: await this.describeChanges(fileSpecs),
+    };
+
+    await fs.mkdir(proposalDir, { recursive: true });
+    for (const fileSpec of fileSpecs) {
+      if (fileSpec.operation === "delete") continue;
+
+      // Renamed files are saved at their new path
+      const filePath = path.join(
+        proposalDir,
+        FILES_DIR,
+        fileSpec.newFileName || fileSpec.fileName
+      );
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, fileSpec.fileContent, "utf8");
+    }
+
+    await fs.writeFile(
+      path.join(proposalDir, PROPOSAL_FILE),
+      JSON.stringify(proposal, null, 2),
+      "utf8"
+    );
+
+    return proposal;
+  },
+
+  /**
+   * Gets a saved proposal
+   */
+  async getProposal(id: string): Promise<Proposal | null> {
+    const content = await readIfExists(
+      path.join(getProposalsDir(), id, PROPOSAL_FILE)
+    );
+    return content ? JSON.parse(content) : null;
+  },
+
+  /**
+   * Reads the proposed contents of a proposal
+   */
+  async getFileUpdates(proposal: Proposal): Promise<FileToUpdate[]> {
+    const filesDir = path.join(getProposalsDir(), proposal.id, FILES_DIR);
+
+    return Promise.all(
+      proposal.files.map(async ({ fileName, change, newFileName }) => {
+        if (change === "deleted") {
+          return { fileName, fileContent: "", operation: "delete" as const };
+        }
+
+        const fileContent = await fs.readFile(
+          path.join(filesDir, newFileName || fileName),
+          "utf8"
+        );
+        return change === "renamed"
+          ? { fileName, fileContent, operation: "rename" as const, newFileName }
+          : { fileName, fileContent };
+      })
+    );
+  },
+
+  /**
+   * Lists all proposals, most recent first
+   */
+  async listProposals(): Promise<Proposal[]> {
+    let ids: string[];
+    try {
+      ids = await fs.readdir(getProposalsDir());
+    } catch {
+      return [];
+    }
+
+    const proposals: Proposal[] = [];
+    for (const id of ids.sort()) {
+      const proposal = await this.getProposal(id);
+      if (proposal) proposals.push(proposal);
+    }
+
+    return proposals.reverse();
+  },
+
+  /**
+   * Lists the files of a proposal changed in the working tree since
+   */
+  async getChangedFiles(proposal: Proposal): Promise<string[]> {
+    const baseDir = process.cwd();
+    const changed: string[] = [];
+
+    for (const { fileName, baseHash } of proposal.files) {
+      const currentContent = await readIfExists(path.join(baseDir, fileName));
+      if (hashContent(currentContent) !== baseHash) changed.push(fileName);
+    }
+
+    return changed;
+  },
+
+  /**
+   * Prints the files a proposal creates, modifies or leaves unchanged
+   */
+  printProposal(proposal: Proposal): void {
+    const changeColors: Record<ProposedFile["change"], string> = {
+      created: colors.FG_GREEN,
+      modified: colors.FG_YELLOW,
+      unchanged: colors.DIM,
+      deleted: colors.FG_RED,
+      renamed: colors.FG_CYAN,
+    };
+
+    for (const file of proposal.files) {
+      const counts =
+        file.change === "unchanged" ? "" : ` (+${file.added} -${file.removed})`;
+
+      logger.info(
+        `  ${changeColors[file.change]}${file.change.padEnd(9)}${
+          colors.RESET
+        } ${file.fileName}${
+          file.newFileName ? ` → ${file.newFileName}` : ""
+        }${counts}`
+      );
+    }
+  },
+};
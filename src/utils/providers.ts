@@ -0,0 +1,346 @@
+import { constants } from "../config/constants";
+import { logger } from "../ui/logger";
+import { LlmProvider, ProviderRequest, RukhResponse } from "./types";
+import { streamUtils } from "./stream";
+import { httpUtils } from "./http";
+
+/**
+ * Instructions sent to providers other than Rukh, which applies its own
+ */
+const SYSTEM_PROMPT = `You are a senior software engineer helping with the repository described in the attached export.
+Answer with a single JSON object and nothing else:
+{"schemaVersion": 1, "output": "<your answer in markdown>", "filesToUpdate": [{"fileName": "<path relative to the repository root>", "fileContent": "<full new content of the file>", "rationale": "<why the file changes, in one sentence>"}]}
+Only include files in filesToUpdate when the query asks for code changes.
+To change part of a large file, replace "fileContent" by "diff", a unified diff of the file with @@ hunks and 3 lines of context, or by "edits", a list of {"search": "<exact lines of the file>", "replace": "<new lines>"} blocks each matching once.
+Give new files and small files in full with "fileContent".
+To delete a file, give {"fileName": "<path>", "operation": "delete"}. To move or rename it, give {"fileName": "<old path>", "operation": "rename", "newFileName": "<new path>"}, with "fileContent", "diff" or "edits" if its content changes too.`;
+
+/** JSON string escapes and the characters they stand for */
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  "\\": "\\",
+  "/": "/",
+  b: "\b",
+  f: "\f",
+  n: "\n",
+  r: "\r",
+  t: "\t",
+};
+
+/**
+ * Picks the answer out of a reply as it streams. Replies are asked as JSON
+ * objects, so only their "output" string is shown, while plain text replies
+ * are shown as they are
+ * @returns A function taking the reply so far and returning the answer text
+ * added since its previous call
+ */
+const createAnswerReader = (): ((reply: string) => string) => {
+  let isJson: boolean | null = null;
+  let searchFrom = 0;
+  // Position in the reply of the next character of the output string
+  let position = -1;
+  let complete = false;
+  let shown = 0;
+
+  return (reply) => {
+    if (isJson === null) {
+      const start = reply.trimStart();
+      if (!start) return "";
+      isJson = start.startsWith("{") || start.startsWith("`");
+    }
+
+    if (!isJson) {
+      const text = reply.slice(shown);
+      shown = reply.length;
+      return text;
+    }
+
+    if (position === -1) {
+      const keyPattern = /"output"\s*:\s*"/g;
+      keyPattern.lastIndex = searchFrom;
+      const match = keyPattern.exec(reply);
+
+      if (!match) {
+        // The key may be cut between two chunks
+        searchFrom = Math.max(0, reply.length - 32);
+        return "";
+      }
+      position = match.index + match[0].length;
+    }
+
+    let text = "";
+    while (!complete && position < reply.length) {
+      const char = reply[position];
+
+      if (char === '"') {
+        complete = true;
+      } else if (char !== "\\") {
+        text += char;
+        position++;
+      } else if (reply[position + 1] === "u") {
+        const hex = reply.slice(position + 2, position + 6);
+        if (hex.length < 4) break;
+        text += String.fromCharCode(parseInt(hex, 16));
+        position += 6;
+      } else {
+        // Wait for the next chunk when the escape is cut
+        if (position + 1 >= reply.length) break;
+        text += JSON_ESCAPES[reply[position + 1]] ?? reply[position + 1];
+        position += 2;
+      }
+    }
+
+    return text;
+  };
+};
+
+/**
+ * Reads a streamed reply, passing the answer to onText as it arrives
+ * @returns The full text of the reply
+ */
+const readStreamedReply = async (
+  name: string,
+  provider: LlmProvider,
+  response: Response,
+  onText: (text: string) => void
+): Promise<string> => {
+  const readAnswer = createAnswerReader();
+  let reply = "";
+
+  const onChunk = (data: string) => {
+    // OpenAI marks the end of the stream
+    if (data === "[DONE]") return;
+
+    const chunk = JSON.parse(data);
+    const error = chunk?.error?.message || chunk?.error;
+    if (error) {
+      throw new Error(
+        `${name} stream failed: ${
+          typeof error === "string" ? error : JSON.stringify(error)
+        }`
+      );
+    }
+
+    reply += provider.extractDelta(chunk);
+
+    const text = readAnswer(reply);
+    if (text) onText(text);
+  };
+
+  if (provider.streamFormat === "lines") {
+    await streamUtils.readLines(response, onChunk);
+  } else {
+    await streamUtils.readEvents(response, (event) => onChunk(event.data));
+  }
+
+  return reply;
+};
+
+/**
+ * Supported providers, Rukh is handled by apiUtils
+ */
+const providers: Record<string, LlmProvider> = {
+  /** OpenAI-compatible chat completions endpoint (OpenAI, llama.cpp server...) */
+  openai: {
+    buildHeaders: (apiKey): Record<string, string> =>
+      apiKey ? { authorization: `Bearer ${apiKey}` } : {},
+    buildBody: (model, systemPrompt, userPrompt, stream) => ({
+      model,
+      stream,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    }),
+    extractText: (reply) => reply?.choices?.[0]?.message?.content || "",
+    streamFormat: "events",
+    extractDelta: (chunk) => chunk?.choices?.[0]?.delta?.content || "",
+  },
+
+  /** Anthropic Messages API */
+  anthropic: {
+    buildHeaders: (apiKey) => ({
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+    }),
+    buildBody: (model, systemPrompt, userPrompt, stream) => ({
+      model,
+      stream,
+      max_tokens: constants.MAX_OUTPUT_TOKENS,
+      system: systemPrompt,
+      messages: [{ role: "user", content: userPrompt }],
+    }),
+    extractText: (reply) =>
+      (reply?.content || [])
+        .filter((block: any) => block.type === "text")
+        .map((block: any) => block.text)
+        .join(""),
+    streamFormat: "events",
+    extractDelta: (chunk) =>
+      chunk?.type === "content_block_delta" ? chunk.delta?.text || "" : "",
+  },
+
+  /** Local Ollama server */
+  ollama: {
+    buildHeaders: () => ({}),
+    buildBody: (model, systemPrompt, userPrompt, stream) => ({
+      model,
+      stream,
+      messages: [
+        { role: "system", content: systemPrompt },
+        { role: "user", content: userPrompt },
+      ],
+    }),
+    extractText: (reply) => reply?.message?.content || "",
+    streamFormat: "lines",
+    extractDelta: (chunk) => chunk?.message?.content || "",
+  },
+};
+
+/**
+ * Provider utilities namespace
+ */
+export const providerUtils = {
+  /**
+   * Lists the names of all supported providers
+   */
+  listProviders(): string[] {
+    return ["rukh", ...Object.keys(providers)];
+  },
+
+  /**
+   * Sends a query to a provider and normalizes its reply
+   * @param name Provider name, other than "rukh"
+   * @param request Query and settings
+   */
+  async sendQuery(
+    name: string,
+    request: ProviderRequest
+  ): Promise<RukhResponse> {
+    const provider = providers[name];
+    const settings = (request.providers || constants.PROVIDERS)[name];
+
+    if (!provider || !settings) {
+      throw new Error(
+        `Unknown provider "${name}". Available providers: ${this.listProviders().join(
+          ", "
+        )}`
+      );
+    }
+
+    const apiKey = settings.apiKeyEnv
+      ? process.env[settings.apiKeyEnv] || ""
+      : "";
+    if (settings.apiKeyEnv && !apiKey && !request.url) {
+      throw new Error(
+        `Missing API key for ${name}. Please set the ${settings.apiKeyEnv} environment variable.`
+      );
+    }
+
+    const url = request.url || settings.url;
+    const model = request.model || settings.model;
+    const userPrompt = `${request.context}\n\n---\n\n${request.query}`;
+
+    // Ctrl+C cancels the request, retries included
+    const controller = new AbortController();
+    const stopHandlingInterrupt = streamUtils.handleInterrupt((error) =>
+      controller.abort(error)
+    );
+
+    try {
+      const response = await httpUtils.request(
+        url,
+        {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            accept: "application/json",
+            ...provider.buildHeaders(apiKey),
+          },
+          body: JSON.stringify(
+            provider.buildBody(
+              model,
+              SYSTEM_PROMPT,
+              userPrompt,
+              Boolean(request.onText)
+            )
+          ),
+        },
+        {
+          maxAttempts: request.maxRetries ?? constants.MAX_RETRIES,
+          retryDelay: request.retryDelay ?? constants.RETRY_DELAY,
+          maxRetryDelay: constants.MAX_RETRY_DELAY,
+          deadline: request.timeout,
+          signal: controller.signal,
+          onRetry: request.onRetry,
+        }
+      );
+
+      if (response.ok && request.onText) {
+        const reply = await readStreamedReply(
+          name,
+          provider,
+          response,
+          request.onText
+        );
+        logger.debug(`Streamed ${reply.length} characters from ${name}`);
+
+        return this.normalizeReply(reply);
+      }
+
+      const responseBody = await response.text();
+      if (!response.ok) {
+        throw new Error(
+          `${name} request failed with status ${
+            response.status
+          }: ${responseBody.slice(0, 200)}`
+        );
+      }
+
+      logger.debug(`Received ${responseBody.length} characters from ${name}`);
+
+      return this.normalizeReply(
+        provider.extractText(JSON.parse(responseBody))
+      );
+    } finally {
+      stopHandlingInterrupt();
+    }
+  },
+
+  /**
+   * Normalizes the text answered by a provider into a Rukh response
+   */
+  normalizeReply(text: string): RukhResponse {
+    // Models often wrap JSON in a fenced code block
+    const unfenced = text
+      .trim()
+      .replace(/^```(?:json)?\s*\n([\s\S]*?)\n```$/, "$1");
+
+    try {
+      const parsed = JSON.parse(unfenced);
+
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        // Checked against the response schema with the file changes
+        const filesToUpdate = parsed.filesToUpdate;
+        const output =
+          typeof parsed.output === "string"
+            ? parsed.output
+            : parsed.answer || "";
+
+        return {
+          output:
+            output ||
+            (Array.isArray(filesToUpdate)
+              ? `Proposed ${filesToUpdate.length} file update(s)`
+              : ""),
+          filesToUpdate,
+          schemaVersion: parsed.schemaVersion,
+        };
+      }
+    } catch {
+      // Plain text answer
+    }
+
+    return { output: text };
+  },
+};
@@ -0,0 +1,261 @@
+import path from "path";
+import { Redaction, SecretDetector } from "./types";
+
+/** Shortest string worth checking for entropy */
+const MIN_ENTROPY_LENGTH = 24;
+
+/** Bits of entropy per character above which a string looks random */
+const MIN_ENTROPY_BITS = 4.2;
+
+/** Characters before an Ethereum key looked at to tell it from a hash */
+const KEY_CONTEXT_CHARS = 200;
+
+/** Words naming a private key, on its line or the line above */
+const KEY_CONTEXT = /priv|secret|mnemonic|signer|wallet|\bpk\b|key/i;
+
+/** Placeholder of a redacted secret */
+const PLACEHOLDER = /\[REDACTED:[\w-]+\]/g;
+
+/** Names of example .env files, which are meant to be shared */
+const ENV_EXAMPLE = /\.(example|sample|template|dist)$/i;
+
+/**
+ * Finds the matches of a pattern
+ * @param group Group holding the secret, the whole match if unset
+ * @param accept Tells whether a match is a secret, all matches if unset
+ */
+const findMatches = (
+  pattern: RegExp,
+  content: string,
+  group: number = 0,
+  accept?: (secret: string, start: number) => boolean
+): [number, number][] => {
+  const spans: [number, number][] = [];
+
+  for (const match of content.matchAll(pattern)) {
+    const secret = match[group];
+    if (!secret) continue;
+
+    // The secret ends its match, or is the whole of it
+    const start = (match.index || 0) + match[0].lastIndexOf(secret);
+    if (!accept || accept(secret, start)) {
+      spans.push([start, start + secret.length]);
+    }
+  }
+
+  return spans;
+};
+
+/**
+ * Computes the Shannon entropy of a string, in bits per character
+ */
+const getEntropy = (text: string): number => {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) || 0) + 1);
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const frequency = count / text.length;
+    entropy -= frequency * Math.log2(frequency);
+  }
+
+  return entropy;
+};
+
+/**
+ * Supported kinds of secrets, in order of precedence when they overlap,
+ * add one here to detect a new kind
+ */
+const detectors: Record<string, SecretDetector> = {
+  "private-key": {
+    find: (content) =>
+      findMatches(
+        /-----BEGIN [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END [A-Z0-9 ]*PRIVATE KEY(?: BLOCK)?-----/g,
+        content
+      ),
+  },
+
+  "aws-access-key": {
+    find: (content) =>
+      findMatches(/\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g, content),
+  },
+
+  "aws-secret-key": {
+    find: (content) =>
+      findMatches(
+        /aws.{0,20}?(?:secret|key).{0,20}?[=:]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/gi,
+        content,
+        1
+      ),
+  },
+
+  "github-token": {
+    find: (content) =>
+      findMatches(
+        /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g,
+        content
+      ),
+  },
+
+  jwt: {
+    find: (content) =>
+      findMatches(
+        /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g,
+        content
+      ),
+  },
+
+  "ethereum-private-key": {
+    // Hashes have the same shape, keys are told apart by their name
+    find: (content) =>
+      findMatches(
+        /(?<![0-9A-Za-z])(?:0x)?[0-9a-fA-F]{64}(?![0-9A-Za-z])/g,
+        content,
+        0,
+        (_, start) => {
+          // Lines may be escaped, as in JSON exports, and redacted secrets
+          // name their kind, which is not the name of a key
+          const before = content
+            .slice(Math.max(0, start - KEY_CONTEXT_CHARS), start)
+            .split(/\n|\\n/)
+            .slice(-2)
+            .join("\n")
+            .replace(PLACEHOLDER, "");
+          return KEY_CONTEXT.test(before);
+        }
+      ),
+  },
+
+  "env-value": {
+    appliesTo: (relativePath) => {
+      const name = path.basename(relativePath);
+      return (
+        (name === ".env" ||
+          name.startsWith(".env.") ||
+          name.endsWith(".env")) &&
+        !ENV_EXAMPLE.test(name)
+      );
+    },
+    find: (content) =>
+      findMatches(
+        /^[ \t]*(?:export[ \t]+)?[A-Za-z_][\w.]*[ \t]*=[ \t]*(\S.*?)[ \t]*$/gm,
+        content,
+        1
+      ),
+  },
+
+  "high-entropy": {
+    find: (content) =>
+      findMatches(
+        /[A-Za-z0-9+/_-]{24,}={0,2}/g,
+        content,
+        0,
+        (secret) =>
+          secret.length >= MIN_ENTROPY_LENGTH &&
+          // Random tokens mix digits and both cases, unlike words and hex
+          /\d/.test(secret) &&
+          /[a-z]/.test(secret) &&
+          /[A-Z]/.test(secret) &&
+          // Integrity hashes of lockfiles are not secrets
+          !/^sha\d+-/.test(secret) &&
+          getEntropy(secret) >= MIN_ENTROPY_BITS
+      ),
+  },
+};
+
+/**
+ * Redaction utilities namespace
+ */
+export const redactionUtils = {
+  /**
+   * Lists the kinds of secrets detected
+   */
+  listTypes(): string[] {
+    return Object.keys(detectors);
+  },
+
+  /**
+   * Gets the placeholder replacing a secret
+   */
+  getPlaceholder(type: string): string {
+    return `[REDACTED:${type}]`;
+  },
+
+  /**
+   * Finds the secrets of a text, without overlaps
+   * @param relativePath Path of the file holding the text, to look for the
+   * secrets of its kind of file such as .env values
+   * @returns The secrets in order, with their offsets
+   */
+  findSecrets(
+    content: string,
+    relativePath?: string
+  ): (Redaction & { start: number; end: number })[] {
+    const secrets: (Redaction & { start: number; end: number })[] = [];
+
+    for (const [type, detector] of Object.entries(detectors)) {
+      if (
+        detector.appliesTo &&
+        (!relativePath || !detector.appliesTo(relativePath))
+      ) {
+        continue;
+      }
+
+      for (const [start, end] of detector.find(content)) {
+        // Earlier detectors are more specific
+        if (
+          secrets.some((secret) => start < secret.end && end > secret.start)
+        ) {
+          continue;
+        }
+
+        secrets.push({
+          type,
+          line: content.slice(0, start).split("\n").length,
+          start,
+          end,
+        });
+      }
+    }
+
+    return secrets.sort((a, b) => a.start - b.start);
+  },
+
+  /**
+   * Replaces the secrets of a file by placeholders naming their kind
+   * @param relativePath Path of the file, relative to the repository root
+   * @returns The redacted content, and the secrets it held
+   */
+  redact(
+    content: string,
+    relativePath?: string
+  ): { content: string; redactions: Redaction[] } {
+    const secrets = this.findSecrets(content, relativePath);
+    if (secrets.length === 0) return { content, redactions: [] };
+
+    let redacted = "";
+    let next = 0;
+    for (const { type, start, end } of secrets) {
+      redacted += content.slice(next, start) + this.getPlaceholder(type);
+      next = end;
+    }
+    redacted += content.slice(next);
+
+    return {
+      content: redacted,
+      redactions: secrets.map(({ type, line }) => ({ type, line })),
+    };
+  },
+
+  /**
+   * Summarizes secrets by kind, such as "2 github-token, 1 jwt"
+   */
+  summarize(redactions: Redaction[]): string {
+    const counts: Record<string, number> = {};
+    for (const { type } of redactions) counts[type] = (counts[type] || 0) + 1;
+
+    return Object.entries(counts)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(", ");
+  },
+};
@@ -0,0 +1,265 @@
+import { constants } from "../config/constants";
+import {
+  FileChangeSpec,
+  FileOperation,
+  ResponseIssue,
+  RukhResponse,
+} from "./types";
+
+/** Operations a file change may perform */
+const OPERATIONS: FileOperation[] = ["create", "modify", "delete", "rename"];
+
+/** Fenced code blocks of a markdown answer */
+const FENCED_BLOCK = /```[^\S\n]*(\w*)[^\n]*\n([\s\S]*?)\n[^\S\n]*```/g;
+
+/**
+ * Checks whether a value is a plain object
+ */
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Checks that a value is a string
+ */
+const checkString = (value: unknown): string | null =>
+  typeof value === "string" ? null : "must be a string";
+
+/**
+ * Checks that a value is a non-empty string
+ */
+const checkPath = (value: unknown): string | null =>
+  typeof value === "string" && value.trim() !== ""
+    ? null
+    : "must be a non-empty string";
+
+/**
+ * Properties of a file change, checked by their value
+ * @returns Why the value is invalid, null if it is valid
+ */
+const FILE_CHANGE_SCHEMA: Record<
+  keyof FileChangeSpec,
+  (value: unknown) => string | null
+> = {
+  fileName: checkPath,
+  operation: (value) =>
+    OPERATIONS.includes(value as FileOperation)
+      ? null
+      : `must be one of ${OPERATIONS.join(", ")}`,
+  newFileName: checkPath,
+  rationale: checkString,
+  fileContent: checkString,
+  diff: checkString,
+  edits: (value) => {
+    if (!Array.isArray(value)) return "must be an array";
+
+    const invalid = value.findIndex(
+      (edit) =>
+        !isObject(edit) ||
+        typeof edit.search !== "string" ||
+        typeof edit.replace !== "string"
+    );
+    return invalid === -1
+      ? null
+      : `edit ${invalid + 1} must have string search and replace properties`;
+  },
+};
+
+/**
+ * Checks a file change against the schema
+ * @param at Where the file change is in the response
+ * @returns The file change if valid, and its issues
+ */
+const validateFileChange = (
+  value: unknown,
+  at: string
+): { spec: FileChangeSpec | null; issues: ResponseIssue[] } => {
+  if (!isObject(value)) {
+    return { spec: null, issues: [{ path: at, message: "must be an object" }] };
+  }
+
+  const issues: ResponseIssue[] = [];
+  const issue = (message: string, property?: string) =>
+    issues.push({ path: property ? `${at}.${property}` : at, message });
+
+  for (const [property, propertyValue] of Object.entries(value)) {
+    if (!(property in FILE_CHANGE_SCHEMA)) {
+      issue("is not a known property", property);
+      continue;
+    }
+
+    const message =
+      FILE_CHANGE_SCHEMA[property as keyof FileChangeSpec](propertyValue);
+    if (message) issue(message, property);
+  }
+
+  if (value.fileName === undefined) issue("is required", "fileName");
+
+  const hasChange = ["fileContent", "diff", "edits"].some(
+    (property) => value[property] !== undefined
+  );
+
+  if (value.operation === "delete") {
+    if (hasChange) {
+      issue("a deleted file cannot have fileContent, diff or edits");
+    }
+  } else if (value.operation === "rename") {
+    if (value.newFileName === undefined) issue("is required", "newFileName");
+  } else if (!hasChange) {
+    issue("needs fileContent, diff or edits");
+  }
+
+  if (value.newFileName !== undefined && value.operation !== "rename") {
+    issue("is only allowed when renaming", "newFileName");
+  }
+
+  return {
+    spec: issues.length === 0 ? (value as unknown as FileChangeSpec) : null,
+    issues,
+  };
+};
+
+/**
+ * Checks a list of file changes, keeping the valid ones
+ * @param at Where the list is in the response
+ */
+const validateFileChanges = (
+  value: unknown,
+  at: string
+): { fileSpecs: FileChangeSpec[]; issues: ResponseIssue[] } => {
+  if (!Array.isArray(value)) {
+    return {
+      fileSpecs: [],
+      issues: [{ path: at, message: "must be an array" }],
+    };
+  }
+
+  const fileSpecs: FileChangeSpec[] = [];
+  const issues: ResponseIssue[] = [];
+
+  value.forEach((entry, index) => {
+    const result = validateFileChange(entry, `${at}[${index}]`);
+    if (result.spec) fileSpecs.push(result.spec);
+    issues.push(...result.issues);
+  });
+
+  return { fileSpecs, issues };
+};
+
+/**
+ * Checks the schema version of a response
+ * @returns Why the version is not supported, null if it is
+ */
+const checkVersion = (version: unknown, at: string): ResponseIssue | null =>
+  version === undefined || version === constants.RESPONSE_SCHEMA_VERSION
+    ? null
+    : {
+        path: at,
+        message: `unsupported version ${JSON.stringify(version)}, expected ${
+          constants.RESPONSE_SCHEMA_VERSION
+        }`,
+      };
+
+/**
+ * Reads file changes from JSON found in an answer, either a list of file
+ * changes or a whole response object
+ * @returns Null if the JSON does not hold file changes
+ */
+const readEmbeddedChanges = (
+  json: unknown,
+  at: string
+): { fileSpecs: FileChangeSpec[]; issues: ResponseIssue[] } | null => {
+  if (Array.isArray(json)) {
+    // Other arrays are examples in the answer
+    const holdsChanges = json.some(
+      (entry) => isObject(entry) && "fileName" in entry
+    );
+    return holdsChanges ? validateFileChanges(json, at) : null;
+  }
+
+  if (isObject(json) && json.filesToUpdate !== undefined) {
+    const versionIssue = checkVersion(
+      json.schemaVersion,
+      `${at}.schemaVersion`
+    );
+    if (versionIssue) return { fileSpecs: [], issues: [versionIssue] };
+
+    return validateFileChanges(json.filesToUpdate, `${at}.filesToUpdate`);
+  }
+
+  return null;
+};
+
+/**
+ * Response utilities namespace
+ */
+export const responseUtils = {
+  /**
+   * Finds the JSON of an answer, the whole answer or its fenced code blocks
+   * @returns Each JSON text with where it is in the answer
+   */
+  findJsonCandidates(text: string): { at: string; json: string }[] {
+    const trimmed = text.trim();
+    if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+      return [{ at: "output", json: trimmed }];
+    }
+
+    const candidates: { at: string; json: string }[] = [];
+    let index = 0;
+
+    for (const [, language, body] of trimmed.matchAll(FENCED_BLOCK)) {
+      index++;
+      if (language === "" || language.toLowerCase() === "json") {
+        candidates.push({ at: `output block ${index}`, json: body.trim() });
+      }
+    }
+
+    return candidates;
+  },
+
+  /**
+   * Reads the file changes of an API response, from its filesToUpdate field
+   * or from JSON in its output, checking them against the response schema
+   * @returns The valid file changes, and the issues of the invalid ones
+   */
+  parseFileChanges(data: RukhResponse): {
+    fileSpecs: FileChangeSpec[];
+    issues: ResponseIssue[];
+  } {
+    const versionIssue = checkVersion(data.schemaVersion, "schemaVersion");
+    if (versionIssue) return { fileSpecs: [], issues: [versionIssue] };
+
+    if (data.filesToUpdate !== undefined) {
+      return validateFileChanges(data.filesToUpdate, "filesToUpdate");
+    }
+
+    const fileSpecs: FileChangeSpec[] = [];
+    const issues: ResponseIssue[] = [];
+    if (typeof data.output !== "string") return { fileSpecs, issues };
+
+    for (const { at, json } of this.findJsonCandidates(data.output)) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(json);
+      } catch (error) {
+        // Only broken file changes are worth reporting, not broken examples
+        if (json.includes('"fileName"')) {
+          issues.push({
+            path: at,
+            message: `is not valid JSON (${
+              error instanceof Error ? error.message : String(error)
+            })`,
+          });
+        }
+        continue;
+      }
+
+      const result = readEmbeddedChanges(parsed, at);
+      if (result) {
+        fileSpecs.push(...result.fileSpecs);
+        issues.push(...result.issues);
+      }
+    }
+
+    return { fileSpecs, issues };
+  },
+};
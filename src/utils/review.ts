@@ -0,0 +1,172 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { spawnSync } from "child_process";
+import prompts from "prompts";
+import { logger } from "../ui/logger";
+import { colors } from "../config/constants";
+import { diffUtils } from "./diff";
+import { FileToUpdate } from "./types";
+
+/**
+ * Possible decisions for a proposed file update
+ */
+type ReviewChoice = "accept" | "reject" | "edit" | "acceptAll" | "rejectAll";
+
+/**
+ * Reads the current content of a file, or null if it doesn't exist
+ */
+const readCurrentContent = (fileName: string): string | null => {
+  const filePath = path.join(process.cwd(), fileName);
+
+  try {
+    return fs.readFileSync(filePath, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Splits an EDITOR value such as "code --wait" into the command and its
+ * arguments, keeping quoted parts such as a path with spaces together
+ */
+const splitCommand = (command: string): string[] =>
+  Array.from(
+    command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g),
+    (match) => match[1] ?? match[2] ?? match[3]
+  );
+
+/**
+ * Review utilities namespace
+ */
+export const reviewUtils = {
+  /**
+   * Shows a diff of every proposed file update and asks the user what to apply
+   * @param fileSpecs File updates proposed by the API
+   * @returns The file updates the user accepted, with any manual edits applied
+   */
+  async reviewFileUpdates(fileSpecs: FileToUpdate[]): Promise<FileToUpdate[]> {
+    const accepted: FileToUpdate[] = [];
+
+    for (let index = 0; index < fileSpecs.length; index++) {
+      let fileSpec = fileSpecs[index];
+      const currentContent = readCurrentContent(fileSpec.fileName);
+      const deleted = fileSpec.operation === "delete";
+      const renamed = fileSpec.operation === "rename";
+      let decided = false;
+
+      while (!decided) {
+        const diff = diffUtils.createUnifiedDiff(
+          currentContent,
+          fileSpec.fileContent,
+          fileSpec.newFileName || fileSpec.fileName
+        );
+
+        // A rename is a change even when the content stays the same
+        if (!diff && !renamed) {
+          logger.info(`No changes for ${fileSpec.fileName}, skipping`);
+          break;
+        }
+
+        const label = deleted
+          ? "Deleted file"
+          : renamed
+          ? "Renamed file"
+          : currentContent === null
+          ? "New file"
+          : "Modified file";
+        logger.info(
+          `${colors.BOLD}[${index + 1}/${fileSpecs.length}] ${label}: ${
+            fileSpec.fileName
+          }${renamed ? ` → ${fileSpec.newFileName}` : ""}${colors.RESET}`
+        );
+        if (diff) console.log(diffUtils.colorize(diff));
+
+        // There is no content to edit in a deletion
+        const choice = await this.promptChoice(fileSpec.fileName, !deleted);
+
+        switch (choice) {
+          case "accept":
+            accepted.push(fileSpec);
+            decided = true;
+            break;
+          case "edit":
+            fileSpec = {
+              ...fileSpec,
+              fileContent: this.editInEditor(fileSpec),
+            };
+            break;
+          case "acceptAll":
+            return [...accepted, fileSpec, ...fileSpecs.slice(index + 1)];
+          case "rejectAll":
+            logger.info("Rejected all remaining file updates");
+            return accepted;
+          default:
+            logger.info(`Rejected changes to ${fileSpec.fileName}`);
+            decided = true;
+        }
+      }
+    }
+
+    return accepted;
+  },
+
+  /**
+   * Asks the user what to do with a proposed file update
+   * @param canEdit Whether to offer editing the proposed content
+   */
+  async promptChoice(
+    fileName: string,
+    canEdit: boolean = true
+  ): Promise<ReviewChoice> {
+    const response = await prompts({
+      type: "select",
+      name: "choice",
+      message: `Apply changes to ${fileName}?`,
+      choices: [
+        { title: "Accept", value: "accept" },
+        { title: "Reject", value: "reject" },
+        ...(canEdit ? [{ title: "Edit", value: "edit" }] : []),
+        { title: "Accept all remaining", value: "acceptAll" },
+        { title: "Reject all remaining", value: "rejectAll" },
+      ],
+      initial: 0,
+    });
+
+    // Cancelling the prompt (Ctrl+C) rejects everything left
+    return response.choice || "rejectAll";
+  },
+
+  /**
+   * Opens the proposed content in the user's editor and returns the edited content
+   */
+  editInEditor(fileSpec: FileToUpdate): string {
+    const [editor, ...editorArgs] = splitCommand(
+      process.env.VISUAL || process.env.EDITOR || "vi"
+    );
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-"));
+    // Only the extension comes from the proposed name, for syntax highlighting
+    const extension = path
+      .extname(fileSpec.newFileName || fileSpec.fileName)
+      .replace(/[^\w.]/g, "");
+    const tempFile = path.join(tempDir, `proposed${extension}`);
+
+    try {
+      fs.writeFileSync(tempFile, fileSpec.fileContent, "utf8");
+
+      // No shell, the path is passed as an argument whatever it contains
+      const result = spawnSync(editor, [...editorArgs, tempFile], {
+        stdio: "inherit",
+      });
+
+      if (result.status !== 0) {
+        logger.warn("Editor exited with an error, keeping proposed content");
+        return fileSpec.fileContent;
+      }
+
+      return fs.readFileSync(tempFile, "utf8");
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  },
+};
@@ -0,0 +1,145 @@
+import fs from "fs/promises";
+import path from "path";
+import { constants } from "../config/constants";
+import { logger } from "../ui/logger";
+import { Session, SessionStore } from "./types";
+
+/**
+ * Gets the Zhankai directory of the current repository
+ */
+const getZhankaiDir = (): string =>
+  path.join(process.cwd(), constants.ZHANKAI_DIR);
+
+/**
+ * Session utilities namespace
+ */
+export const sessionUtils = {
+  /**
+   * Loads the sessions of the current repository
+   */
+  async loadStore(): Promise<SessionStore> {
+    try {
+      const content = await fs.readFile(
+        path.join(getZhankaiDir(), constants.SESSIONS_FILE),
+        "utf8"
+      );
+      return JSON.parse(content);
+    } catch {
+      return { sessions: [] };
+    }
+  },
+
+  /**
+   * Saves the sessions of the current repository
+   */
+  async saveStore(store: SessionStore): Promise<void> {
+    await fs.mkdir(getZhankaiDir(), { recursive: true });
+    await fs.writeFile(
+      path.join(getZhankaiDir(), constants.SESSIONS_FILE),
+      JSON.stringify(store, null, 2),
+      "utf8"
+    );
+  },
+
+  /**
+   * Gets the session the next query continues, if any
+   */
+  async getCurrentSessionId(): Promise<string | undefined> {
+    const store = await this.loadStore();
+    return store.currentSessionId;
+  },
+
+  /**
+   * Lists sessions, most recently used first
+   */
+  async listSessions(): Promise<Session[]> {
+    const store = await this.loadStore();
+    return [...store.sessions].sort((a, b) =>
+      b.updatedAt.localeCompare(a.updatedAt)
+    );
+  },
+
+  /**
+   * Records a query in a session and makes it the current session
+   * @param sessionId Session identifier returned by the API
+   * @param query Query text
+   * @param transcriptPath Path of the file the answer was saved to
+   */
+  async recordTurn(
+    sessionId: string,
+    query: string,
+    transcriptPath: string
+  ): Promise<void> {
+    const store = await this.loadStore();
+    const now = new Date().toISOString();
+
+    let session = store.sessions.find((s) => s.id === sessionId);
+    if (!session) {
+      session = { id: sessionId, createdAt: now, updatedAt: now, turns: [] };
+      store.sessions.push(session);
+    }
+
+    session.turns.push({
+      query,
+      transcript: path.relative(getZhankaiDir(), transcriptPath),
+      timestamp: now,
+    });
+    session.updatedAt = now;
+    store.currentSessionId = sessionId;
+
+    await this.saveStore(store);
+    logger.debug(`Recorded query in session ${sessionId}`);
+  },
+
+  /**
+   * Makes an existing session the current one
+   * @returns false if the session doesn't exist
+   */
+  async resumeSession(sessionId: string): Promise<boolean> {
+    const store = await this.loadStore();
+
+    if (!store.sessions.some((s) => s.id === sessionId)) {
+      return false;
+    }
+
+    store.currentSessionId = sessionId;
+    await this.saveStore(store);
+    return true;
+  },
+
+  /**
+   * Stops continuing the current session, the next query starts a new one
+   */
+  async clearCurrentSession(): Promise<void> {
+    const store = await this.loadStore();
+    delete store.currentSessionId;
+    await this.saveStore(store);
+  },
+
+  /**
+   * Deletes a session along with its saved transcripts
+   * @returns false if the session doesn't exist
+   */
+  async deleteSession(sessionId: string): Promise<boolean> {
+    const store = await this.loadStore();
+    const session = store.sessions.find((s) => s.id === sessionId);
+
+    if (!session) {
+      return false;
+    }
+
+    for (const turn of session.turns) {
+      await fs.rm(path.join(getZhankaiDir(), turn.transcript), {
+        force: true,
+      });
+    }
+
+    store.sessions = store.sessions.filter((s) => s.id !== sessionId);
+    if (store.currentSessionId === sessionId) {
+      delete store.currentSessionId;
+    }
+
+    await this.saveStore(store);
+    return true;
+  },
+};
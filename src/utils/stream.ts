@@ -0,0 +1,124 @@
+import { ServerSentEvent } from "./types";
+
+/** Message of the error aborting a query cancelled with Ctrl+C */
+const CANCELLED_MESSAGE = "Query cancelled";
+
+/**
+ * Reads the body of a response line by line as it arrives, blank lines
+ * included
+ */
+const readBodyLines = async (
+  response: Response,
+  onLine: (line: string) => void
+): Promise<void> => {
+  if (!response.body) {
+    (await response.text()).split(/\r?\n/).forEach(onLine);
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      pending += decoder.decode(value, { stream: !done });
+
+      const lines = pending.split(/\r?\n/);
+      pending = done ? "" : lines.pop() || "";
+      lines.forEach(onLine);
+
+      if (done) break;
+    }
+  } catch (error) {
+    // Close the connection when a line handler fails
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+};
+
+/**
+ * Stream utilities namespace
+ */
+export const streamUtils = {
+  /**
+   * Tells whether a response streams server-sent events
+   */
+  isEventStream(response: Response): boolean {
+    return (response.headers.get("content-type") || "").includes(
+      "text/event-stream"
+    );
+  },
+
+  /**
+   * Reads the server-sent events of a response as they arrive
+   */
+  async readEvents(
+    response: Response,
+    onEvent: (event: ServerSentEvent) => void
+  ): Promise<void> {
+    let event = "";
+    let data: string[] = [];
+
+    const dispatch = () => {
+      if (data.length > 0) {
+        onEvent({ event: event || "message", data: data.join("\n") });
+      }
+      event = "";
+      data = [];
+    };
+
+    await readBodyLines(response, (line) => {
+      if (line === "") {
+        dispatch();
+        return;
+      }
+
+      // Lines starting with a colon are comments, used as keep-alives
+      if (line.startsWith(":")) return;
+
+      const colon = line.indexOf(":");
+      const field = colon === -1 ? line : line.slice(0, colon);
+      const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+      if (field === "event") event = value;
+      if (field === "data") data.push(value);
+    });
+
+    dispatch();
+  },
+
+  /**
+   * Reads the non-empty lines of a response as they arrive, such as JSON lines
+   */
+  async readLines(
+    response: Response,
+    onLine: (line: string) => void
+  ): Promise<void> {
+    await readBodyLines(response, (line) => {
+      if (line.trim()) onLine(line);
+    });
+  },
+
+  /**
+   * Lets Ctrl+C cancel a query instead of exiting, until the returned
+   * function is called. Pressing it again exits as usual
+   * @param onCancel Aborts the request in flight with the given error
+   */
+  handleInterrupt(onCancel: (error: Error) => void): () => void {
+    const onInterrupt = () => onCancel(new Error(CANCELLED_MESSAGE));
+    process.once("SIGINT", onInterrupt);
+
+    return () => {
+      process.off("SIGINT", onInterrupt);
+    };
+  },
+
+  /**
+   * Tells whether an error comes from a query cancelled with Ctrl+C
+   */
+  isCancelled(error: unknown): boolean {
+    return error instanceof Error && error.message === CANCELLED_MESSAGE;
+  },
+};
@@ -0,0 +1,436 @@
+import fs from "fs/promises";
+import path from "path";
+import { constants, languageMap } from "../config/constants";
+import { logger } from "../ui/logger";
+import { binaryUtils } from "./binary";
+import { concurrencyUtils } from "./concurrency";
+import { gitUtils } from "./git";
+import { markdownUtils } from "./markdown";
+import { truncationUtils } from "./truncation";
+import {
+  BudgetPriority,
+  ExportedFile,
+  ExportLimits,
+  FileTokenStats,
+  TokenBudgetPlan,
+} from "./types";
+import { writerUtils } from "./writers";
+
+/** Average number of characters per token of code and English text */
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Tokens added to each file measured alone for what depends on its place in
+ * the export, such as separators and indexes
+ */
+const ENTRY_SLACK_TOKENS = 1;
+
+/**
+ * Estimated tokens a file cut to fit the budget takes beyond its omitted entry
+ * and kept lines: its code fence and a longer note
+ */
+const CUT_OVERHEAD_TOKENS = 25;
+
+/** Smallest share of the budget worth truncating a file into */
+const MIN_TRUNCATED_TOKENS = 100;
+
+/** Query words too common to tell files apart */
+const STOP_WORDS = new Set([
+  "the",
+  "and",
+  "for",
+  "with",
+  "that",
+  "this",
+  "from",
+  "into",
+  "please",
+  "add",
+  "fix",
+  "make",
+  "use",
+  "how",
+  "what",
+  "why",
+  "can",
+  "you",
+]);
+
+/**
+ * Token utilities namespace
+ */
+export const tokenUtils = {
+  /**
+   * Lists the supported budget priorities
+   */
+  listPriorities(): BudgetPriority[] {
+    return ["relevance", "recent", "size"];
+  },
+
+  /**
+   * Estimates the number of tokens of a text
+   */
+  estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+  },
+
+  /**
+   * Estimates the tokens of a file as a writer renders it, so that its path,
+   * heading and escaping count
+   * @param format Export format, markdown if unset
+   */
+  async measureEntry(file: ExportedFile, format?: string): Promise<number> {
+    const rendered = await writerUtils.render(format, (writer, append) =>
+      writer.writeFile(file, append)
+    );
+    return this.estimateTokens(rendered) + ENTRY_SLACK_TOKENS;
+  },
+
+  /**
+   * Estimates the tokens a file cut or omitted adds to the footer, which
+   * may list it
+   * @param format Export format, markdown if unset
+   */
+  async measureFooterMention(
+    relativePath: string,
+    format?: string
+  ): Promise<number> {
+    const renderFooter = (truncated: string[]) =>
+      writerUtils.render(format, (writer, append) =>
+        writer.writeFooter(
+          {
+            structure: "",
+            plan: {
+              decisions: {},
+              maxTokens: 0,
+              usedTokens: 0,
+              truncated,
+              omitted: [],
+            },
+          },
+          append
+        )
+      );
+
+    const [listed, unlisted] = await Promise.all([
+      renderFooter([relativePath]),
+      renderFooter([]),
+    ]);
+    // A token more for the separator between listed paths
+    return this.estimateTokens(listed) - this.estimateTokens(unlisted) + 1;
+  },
+
+  /**
+   * Extracts the keywords of a query used to rank files by relevance
+   */
+  getKeywords(query: string = ""): string[] {
+    const words = query
+      .toLowerCase()
+      .split(/[^a-z0-9_]+/)
+      .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+
+    return [...new Set(words)];
+  },
+
+  /**
+   * Scores how relevant a file is to query keywords
+   */
+  scoreRelevance(
+    relativePath: string,
+    content: string,
+    keywords: string[]
+  ): number {
+    const lowerPath = relativePath.toLowerCase();
+    const lowerContent = content.toLowerCase();
+    let score = 0;
+
+    for (const keyword of keywords) {
+      // A keyword in the path is a stronger signal than in the content
+      if (lowerPath.includes(keyword)) score += 10;
+      score += Math.min(lowerContent.split(keyword).length - 1, 10);
+    }
+
+    return score;
+  },
+
+  /**
+   * Measures the files of an export, reading them in parallel
+   * @param baseDir Repository root
+   * @param files Paths relative to baseDir
+   * @param query Query used to score relevance
+   * @param truncation Truncation strategy by glob pattern
+   * @param limits Limits of the exported files, the constants if unset
+   */
+  async getFileStats(
+    baseDir: string,
+    files: string[],
+    query?: string,
+    truncation?: Record<string, string>,
+    limits: ExportLimits = {}
+  ): Promise<FileTokenStats[]> {
+    const keywords = this.getKeywords(query);
+    const commitTimes = await gitUtils.getLastCommitTimes(baseDir);
+    const uncommitted = await gitUtils.getUncommittedFiles(baseDir);
+    const stats: FileTokenStats[] = [];
+
+    await concurrencyUtils.forEachOrdered(
+      files,
+      constants.EXPORT_CONCURRENCY,
+      (relativePath) =>
+        this.measureFile(
+          baseDir,
+          relativePath,
+          keywords,
+          commitTimes[relativePath] || 0,
+          // Outside a repository, modification times are all there is
+          !uncommitted || uncommitted.has(relativePath),
+          truncation,
+          limits
+        ),
+      async (stat) => {
+        if (stat) stats.push(stat);
+      }
+    );
+
+    return stats;
+  },
+
+  /**
+   * Measures a file of an export
+   * @param committedAt Time of the latest commit touching the file, 0 if none
+   * @param uncommitted Whether the file has changes since that commit
+   * @returns The stats of the file, or null if it cannot be read
+   */
+  async measureFile(
+    baseDir: string,
+    relativePath: string,
+    keywords: string[],
+    committedAt: number,
+    uncommitted: boolean,
+    truncation?: Record<string, string>,
+    limits: ExportLimits = {}
+  ): Promise<FileTokenStats | null> {
+    const filePath = path.join(baseDir, relativePath);
+    const file: ExportedFile = {
+      fileName: relativePath,
+      fileContent: "",
+      language: languageMap[path.extname(relativePath).toLowerCase()] || "",
+    };
+
+    try {
+      // Checkouts touch every file, only uncommitted changes date from mtime
+      const modifiedAt = uncommitted
+        ? Math.max(committedAt, (await fs.stat(filePath)).mtimeMs)
+        : committedAt;
+
+      const omittedTokens =
+        (await this.measureEntry(
+          { ...file, omitted: true, note: constants.OMITTED_FILE_NOTE },
+          limits.format
+        )) + (await this.measureFooterMention(relativePath, limits.format));
+
+      const inspection = await binaryUtils.inspect(
+        filePath,
+        limits.maxFileSize
+      );
+      if (inspection.kind !== "text") {
+        return {
+          path: relativePath,
+          lines: 0,
+          tokens: await this.measureEntry(
+            {
+              ...file,
+              omitted: true,
+              note: binaryUtils.describePlaceholder(
+                inspection,
+                limits.maxFileSize
+              ),
+            },
+            limits.format
+          ),
+          omittedTokens,
+          contentTokens: 0,
+          relevance: this.scoreRelevance(relativePath, "", keywords),
+          modifiedAt,
+        };
+      }
+
+      const content = await fs.readFile(filePath, "utf8");
+      const lines = content.split("\n");
+      const maxFileLines = limits.maxFileLines ?? constants.MAX_FILE_LINES;
+      // Files over the line limit are exported as a preview
+      const exported: ExportedFile = { ...file, fileContent: content };
+      if (lines.length > maxFileLines) {
+        const { lines: kept, description } = truncationUtils.truncate(
+          lines,
+          {
+            relativePath,
+            maxLines: limits.previewLines ?? constants.PREVIEW_LINES,
+            keywords,
+          },
+          truncationUtils.getStrategyName(relativePath, truncation)
+        );
+        exported.fileContent = kept.join("\n");
+        exported.note = truncationUtils.describePreview(
+          maxFileLines,
+          description
+        );
+      }
+
+      const tokens = await this.measureEntry(exported, limits.format);
+      return {
+        path: relativePath,
+        lines: lines.length,
+        tokens,
+        omittedTokens,
+        // Escaping counts as part of the content
+        contentTokens:
+          tokens -
+          (await this.measureEntry(
+            { ...exported, fileContent: "" },
+            limits.format
+          )),
+        relevance: this.scoreRelevance(relativePath, content, keywords),
+        modifiedAt,
+      };
+    } catch (error) {
+      logger.debug(`Could not measure ${relativePath}:`, error);
+      return null;
+    }
+  },
+
+  /**
+   * Sorts files by the order in which they get the budget
+   */
+  sortByPriority(
+    stats: FileTokenStats[],
+    priority: BudgetPriority
+  ): FileTokenStats[] {
+    const bySize = (a: FileTokenStats, b: FileTokenStats) =>
+      a.tokens - b.tokens;
+
+    return [...stats].sort((a, b) => {
+      switch (priority) {
+        case "relevance":
+          return b.relevance - a.relevance || bySize(a, b);
+        case "recent":
+          return b.modifiedAt - a.modifiedAt || bySize(a, b);
+        default:
+          return bySize(a, b);
+      }
+    });
+  },
+
+  /**
+   * Decides which files are exported in full, truncated or omitted
+   * @param stats Files of the export
+   * @param maxTokens Maximum estimated tokens of the export
+   * @param priority Order in which files get the budget
+   * @param reservedTokens Tokens used by the rest of the export, such as the structure
+   * @param limits Limits of the exported files, the constants if unset
+   */
+  planBudget(
+    stats: FileTokenStats[],
+    maxTokens: number,
+    priority: BudgetPriority,
+    reservedTokens: number = 0,
+    limits: ExportLimits = {}
+  ): TokenBudgetPlan {
+    const plan: TokenBudgetPlan = {
+      decisions: {},
+      maxTokens,
+      usedTokens: reservedTokens,
+      truncated: [],
+      omitted: [],
+    };
+
+    const sorted = this.sortByPriority(stats, priority);
+
+    // Every file takes at least its omitted entry, keep room for the next ones
+    let laterOmittedTokens = sorted.reduce(
+      (sum, stat) => sum + stat.omittedTokens,
+      0
+    );
+
+    for (const stat of sorted) {
+      laterOmittedTokens -= stat.omittedTokens;
+      const remaining = maxTokens - plan.usedTokens - laterOmittedTokens;
+
+      if (stat.tokens <= remaining) {
+        plan.decisions[stat.path] = { action: "include" };
+        plan.usedTokens += stat.tokens;
+        continue;
+      }
+
+      const exportedLines =
+        stat.lines > (limits.maxFileLines ?? constants.MAX_FILE_LINES)
+          ? (limits.previewLines ?? constants.PREVIEW_LINES)
+          : stat.lines;
+      const available = remaining - stat.omittedTokens - CUT_OVERHEAD_TOKENS;
+      const maxLines =
+        stat.contentTokens > 0
+          ? Math.floor((exportedLines * available) / stat.contentTokens)
+          : 0;
+
+      if (available >= MIN_TRUNCATED_TOKENS && maxLines > 0) {
+        plan.decisions[stat.path] = { action: "truncate", maxLines };
+        plan.truncated.push(stat.path);
+        plan.usedTokens +=
+          stat.omittedTokens +
+          CUT_OVERHEAD_TOKENS +
+          Math.ceil((stat.contentTokens * maxLines) / exportedLines);
+      } else {
+        plan.decisions[stat.path] = { action: "omit" };
+        plan.omitted.push(stat.path);
+        plan.usedTokens += stat.omittedTokens;
+      }
+    }
+
+    return plan;
+  },
+
+  /**
+   * Creates a markdown table summarizing the size of an export
+   * @param plan Token budget, adds a budget column if given
+   */
+  createStatsTable(stats: FileTokenStats[], plan?: TokenBudgetPlan): string {
+    const total = stats.reduce((sum, stat) => sum + stat.tokens, 0);
+    const headers = ["File", "Lines", "Tokens", "Share"];
+    if (plan) headers.push("Budget");
+
+    const rows = [...stats]
+      .sort((a, b) => b.tokens - a.tokens)
+      .map((stat) => {
+        const row = [
+          stat.path,
+          String(stat.lines),
+          String(stat.tokens),
+          `${total > 0 ? ((stat.tokens / total) * 100).toFixed(1) : "0.0"}%`,
+        ];
+
+        if (plan) {
+          const decision = plan.decisions[stat.path];
+          row.push(
+            decision?.action === "truncate"
+              ? `truncate to ${decision.maxLines} lines`
+              : decision?.action || "include"
+          );
+        }
+
+        return row;
+      });
+
+    const totalRow = [
+      `**Total (${stats.length} files)**`,
+      String(stats.reduce((sum, stat) => sum + stat.lines, 0)),
+      String(total),
+      "100%",
+    ];
+    if (plan) {
+      totalRow.push(`~${plan.usedTokens} of ${plan.maxTokens}`);
+    }
+    rows.push(totalRow);
+
+    return markdownUtils.createTable(headers, rows);
+  },
+};
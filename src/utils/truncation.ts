@@ -0,0 +1,297 @@
+import path from "path";
+import ignore from "ignore";
+import { TruncationContext, TruncationStrategy } from "./types";
+
+/** Lines kept before and after each line matching the query */
+const RELEVANCE_WINDOW_LINES = 3;
+
+/** Lines read after a signature opening a parenthesis, to find its end */
+const MAX_SIGNATURE_LINES = 10;
+
+/** Words that look like a method call but start a statement */
+const CONTROL_KEYWORDS = new Set([
+  "if",
+  "for",
+  "while",
+  "switch",
+  "catch",
+  "return",
+]);
+
+const TS_OUTLINE_PATTERNS = [
+  /^\s*export\s/,
+  /^\s*(?:declare\s+)?(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:function\*?|class|interface|type|enum|namespace)\s+[\w$]/,
+  // Top-level functions bound to a const or let, arrow or not
+  /^(?:const|let)\s+[\w$]+\s*(?::[^=]+)?=\s*(?:async\s+)?(?:function\b|(?:<[^>]*>\s*)?\((?:.*=>|[^)]*$)|[\w$]+\s*=>)/,
+  // Methods of classes and object literals
+  /^\s+(?:(?:public|private|protected|static|readonly|abstract|override|async|get|set)\s+)*[\w$]+\s*(?:<[^>]*>)?\s*\([^)]*\)?\s*(?::[^=;]*)?\{?\s*$/,
+];
+
+/**
+ * Patterns of the lines declaring symbols and signatures, by extension
+ */
+const OUTLINE_PATTERNS: Record<string, RegExp[]> = {
+  ".ts": TS_OUTLINE_PATTERNS,
+  ".tsx": TS_OUTLINE_PATTERNS,
+  ".mts": TS_OUTLINE_PATTERNS,
+  ".cts": TS_OUTLINE_PATTERNS,
+  ".js": TS_OUTLINE_PATTERNS,
+  ".jsx": TS_OUTLINE_PATTERNS,
+  ".mjs": TS_OUTLINE_PATTERNS,
+  ".cjs": TS_OUTLINE_PATTERNS,
+  ".py": [/^\s*@[\w.]+/, /^\s*(?:async\s+)?def\s+\w+/, /^\s*class\s+\w+/],
+  ".go": [/^package\s/, /^func\s/, /^type\s/, /^(?:var|const)\s+\w/],
+};
+
+/**
+ * Marks the place of lines left out of a cut file
+ */
+const omittedMarker = (count: number): string =>
+  `... ${count} line${count === 1 ? "" : "s"} omitted ...`;
+
+/**
+ * Keeps the given lines of a file, marking the gaps between them
+ * @param kept Indexes of the kept lines, in ascending order
+ */
+const keepLines = (lines: string[], kept: number[]): string[] => {
+  const result: string[] = [];
+  let next = 0;
+
+  for (const index of kept) {
+    if (index > next) result.push(omittedMarker(index - next));
+    result.push(lines[index]);
+    next = index + 1;
+  }
+
+  if (next < lines.length) result.push(omittedMarker(lines.length - next));
+  return result;
+};
+
+/**
+ * Keeps as many of the given lines as fit, with the markers of their gaps
+ * @param kept Indexes of the lines worth keeping, in ascending order
+ * @returns The kept lines, or null if none fit
+ */
+const fitLines = (
+  lines: string[],
+  kept: number[],
+  maxLines: number
+): string[] | null => {
+  const fitted: number[] = [];
+  let count = 0;
+  let next = 0;
+
+  for (const index of kept) {
+    const added = index > next ? 2 : 1;
+    // Keep room for the marker closing the file
+    const closing = index + 1 < lines.length ? 1 : 0;
+    if (count + added + closing > maxLines) break;
+
+    fitted.push(index);
+    count += added;
+    next = index + 1;
+  }
+
+  return fitted.length > 0 ? keepLines(lines, fitted) : null;
+};
+
+/**
+ * Tells whether a line of a signature leaves a parenthesis open
+ */
+const opensParenthesis = (line: string): boolean =>
+  (line.match(/\(/g) || []).length > (line.match(/\)/g) || []).length;
+
+/**
+ * Supported truncation strategies, add one here to support a new one
+ */
+const strategies: Record<string, TruncationStrategy> = {
+  head: {
+    truncate: (lines, { maxLines }) => lines.slice(0, maxLines),
+  },
+
+  "head-tail": {
+    description: "the first and last lines",
+    truncate(lines, { maxLines }) {
+      if (lines.length <= maxLines) return lines;
+
+      // One line goes to the omission marker
+      const tailLines = Math.floor((maxLines - 1) / 2);
+      const headLines = maxLines - 1 - tailLines;
+
+      return [
+        ...lines.slice(0, headLines),
+        omittedMarker(lines.length - headLines - tailLines),
+        ...lines.slice(lines.length - tailLines),
+      ];
+    },
+  },
+
+  outline: {
+    description: "the outline",
+    truncate(lines, { relativePath, maxLines }) {
+      const patterns =
+        OUTLINE_PATTERNS[path.extname(relativePath).toLowerCase()];
+      if (!patterns) return null;
+
+      const kept: number[] = [];
+
+      for (let index = 0; index < lines.length; index++) {
+        const line = lines[index];
+        const name = line.trim().match(/^[\w$]+/)?.[0] || "";
+
+        if (
+          CONTROL_KEYWORDS.has(name) ||
+          !patterns.some((pattern) => pattern.test(line))
+        ) {
+          continue;
+        }
+
+        kept.push(index);
+
+        // Keep the parameters of signatures spanning several lines
+        let end = index;
+        while (
+          opensParenthesis(lines.slice(index, end + 1).join("\n")) &&
+          end + 1 < lines.length &&
+          end - index < MAX_SIGNATURE_LINES
+        ) {
+          end++;
+          kept.push(end);
+        }
+        index = end;
+      }
+
+      return fitLines(lines, kept, maxLines);
+    },
+  },
+
+  relevance: {
+    description: "the lines around matches of the query",
+    truncate(lines, { maxLines, keywords }) {
+      if (keywords.length === 0) return null;
+
+      const matches = lines
+        .map((line, index) => ({ line: line.toLowerCase(), index }))
+        .filter(({ line }) =>
+          keywords.some((keyword) => line.includes(keyword))
+        )
+        .map(({ index }) => index);
+
+      if (matches.length === 0) return null;
+
+      const kept = new Set<number>();
+      for (const match of matches) {
+        for (
+          let index = Math.max(0, match - RELEVANCE_WINDOW_LINES);
+          index <= Math.min(lines.length - 1, match + RELEVANCE_WINDOW_LINES);
+          index++
+        ) {
+          kept.add(index);
+        }
+      }
+
+      return fitLines(
+        lines,
+        [...kept].sort((a, b) => a - b),
+        maxLines
+      );
+    },
+  },
+};
+
+/**
+ * Truncation utilities namespace
+ */
+export const truncationUtils = {
+  /**
+   * Lists the names of all supported truncation strategies
+   */
+  listStrategies(): string[] {
+    return Object.keys(strategies);
+  },
+
+  /**
+   * Parses a truncation rule given on the command line
+   * @param rule Strategy name, optionally preceded by a glob and "="
+   * @returns The glob and the strategy, the glob matching all files if unset
+   */
+  parseRule(rule: string): [string, string] {
+    const separator = rule.lastIndexOf("=");
+
+    return separator === -1
+      ? ["*", rule.trim()]
+      : [rule.slice(0, separator).trim(), rule.slice(separator + 1).trim()];
+  },
+
+  /**
+   * Finds the truncation strategy of a file
+   * @param rules Strategy by glob pattern, the last matching pattern wins
+   * @returns The name of the strategy, head if no pattern matches
+   */
+  getStrategyName(
+    relativePath: string,
+    rules: Record<string, string> = {}
+  ): string {
+    let name = "head";
+
+    for (const [pattern, strategy] of Object.entries(rules)) {
+      if (ignore().add(pattern).ignores(relativePath)) {
+        name = strategy;
+      }
+    }
+
+    if (!strategies[name]) {
+      throw new Error(
+        `Unknown truncation strategy "${name}". Available strategies: ${this.listStrategies().join(
+          ", "
+        )}`
+      );
+    }
+
+    return name;
+  },
+
+  /**
+   * Cuts a file down to a number of lines
+   * @param name Strategy to use, falling back to head when it does not apply
+   * @returns The kept lines, and what they are unless they are the first lines
+   */
+  truncate(
+    lines: string[],
+    context: TruncationContext,
+    name: string = "head"
+  ): { lines: string[]; description?: string } {
+    const strategy = strategies[name] || strategies.head;
+    const kept = strategy.truncate(lines, context);
+
+    if (kept === null) {
+      return { lines: strategies.head.truncate(lines, context) || [] };
+    }
+
+    return { lines: kept, description: strategy.description };
+  },
+
+  /**
+   * Describes a file cut to a preview because it has too many lines
+   * @param description What the kept lines are, from truncate
+   */
+  describePreview(maxFileLines: number, description?: string): string {
+    return `This file was cut: it has more than ${maxFileLines} lines${
+      description ? `, showing ${description}` : ""
+    }`;
+  },
+
+  /**
+   * Describes a file cut to fit the token budget
+   * @param description What the kept lines are, from truncate
+   */
+  describeBudgetCut(
+    maxLines: number,
+    totalLines: number,
+    description?: string
+  ): string {
+    return `This file was cut to fit the token budget: ${maxLines} of ${totalLines} lines shown${
+      description ? ` (${description})` : ""
+    }`;
+  },
+};
@@ -14,11 +14,373 @@ export interface ZhankaiConfig {
   /** Query string for Rukh API */
   query?: string;
 
+  /** Glob patterns of the files to export, all files when empty */
+  include?: string[];
+
+  /** Glob patterns of the files to leave out of the export */
+  exclude?: string[];
+
+  /** Files to export instead of walking the repository, relative to its root */
+  files?: string[];
+
+  /** Export the files changed since this git ref, with their diff */
+  changedSince?: string;
+
+  /** Export the staged files, with their diff */
+  staged?: boolean;
+
+  /** Maximum estimated tokens of the export */
+  maxTokens?: number;
+
+  /** Order in which files get the token budget */
+  priority?: BudgetPriority;
+
+  /** Format of the export: markdown, json or xml */
+  format?: string;
+
+  /** Truncation strategy by glob pattern, the last matching pattern wins */
+  truncation?: Record<string, string>;
+
+  /** Reuse the files exported by previous runs that did not change, true if unset */
+  cache?: boolean;
+
+  /** Export only the files listed by git ls-files */
+  respectGit?: boolean;
+
+  /** Maximum file lines before truncation, constants.MAX_FILE_LINES if unset */
+  maxFileLines?: number;
+
+  /** Preview lines for truncated files, constants.PREVIEW_LINES if unset */
+  previewLines?: number;
+
+  /** Maximum size in bytes of exported files, constants.MAX_FILE_SIZE if unset */
+  maxFileSize?: number;
+
+  /** Items always ignored during export, constants.DEFAULT_IGNORES if unset */
+  defaultIgnores?: string[];
+
   /** Debug mode flag */
   debug?: boolean;
 
-  /** API request timeout in milliseconds */
+  /** Time budget of API requests in milliseconds, retries included */
   timeout?: number;
+
+  /** Apply proposed file changes without interactive review */
+  yes?: boolean;
+
+  /** Commit proposed file changes on a new branch */
+  branch?: boolean;
+
+  /** Save proposed file changes instead of applying them */
+  dryRun?: boolean;
+
+  /** Commands run after file changes are applied, such as a build or tests */
+  verify?: string[];
+
+  /** Follow-up queries asking to fix failed checks */
+  maxRepairs?: number;
+
+  /** Print the answer as it streams */
+  stream?: boolean;
+
+  /** Conversation session to continue */
+  session?: string;
+
+  /** Start a new conversation session */
+  newSession?: boolean;
+
+  /** LLM provider to query */
+  provider?: string;
+
+  /** Model to use with the provider */
+  model?: string;
+
+  /** Endpoint URL of the provider */
+  providerUrl?: string;
+
+  /** URL of the Rukh API */
+  rukhApiUrl?: string;
+
+  /** Maximum API retry attempts */
+  maxRetries?: number;
+
+  /** Delay before the first API retry in milliseconds */
+  retryDelay?: number;
+
+  /** Settings of the providers other than Rukh */
+  providers?: Record<string, ProviderSettings>;
+}
+
+/**
+ * Limits deciding which files are cut or left out of an export, and the
+ * format they are rendered in
+ */
+export type ExportLimits = Pick<
+  ZhankaiConfig,
+  "maxFileLines" | "previewLines" | "maxFileSize" | "format"
+>;
+
+/**
+ * Settings of a provider other than Rukh
+ */
+export interface ProviderSettings {
+  /** Endpoint URL */
+  url: string;
+
+  /** Default model */
+  model: string;
+
+  /** Environment variable holding the API key, empty if none is needed */
+  apiKeyEnv: string;
+}
+
+/**
+ * Effective settings merged from flags, config files and defaults
+ */
+export interface ZhankaiSettings {
+  /** Output file name, defaults to <repo>_app_description.md */
+  output?: string;
+
+  /** Maximum directory traversal depth */
+  depth: number;
+
+  /** Time budget of API requests in milliseconds, retries included */
+  timeout: number;
+
+  /** LLM provider to query */
+  provider: string;
+
+  /** Model to use with the provider */
+  model?: string;
+
+  /** Endpoint URL of the provider */
+  providerUrl?: string;
+
+  /** Maximum file lines before truncation */
+  maxFileLines: number;
+
+  /** Preview lines for truncated files */
+  previewLines: number;
+
+  /** Maximum size in bytes of the files whose content is exported */
+  maxFileSize: number;
+
+  /** Items always ignored during export */
+  defaultIgnores: string[];
+
+  /** Glob patterns of the files to export, all files when empty */
+  include: string[];
+
+  /** Glob patterns of the files to leave out of the export */
+  exclude: string[];
+
+  /** Maximum estimated tokens of the export, unlimited if unset */
+  maxTokens?: number;
+
+  /** Order in which files get the token budget */
+  priority?: BudgetPriority;
+
+  /** Format of the export */
+  format: string;
+
+  /** Truncation strategy by glob pattern, the last matching pattern wins */
+  truncation: Record<string, string>;
+
+  /** Export only the files listed by git ls-files */
+  respectGit: boolean;
+
+  /** Commands run after file changes are applied, such as a build or tests */
+  verify: string[];
+
+  /** Follow-up queries asking to fix failed checks */
+  maxRepairs: number;
+
+  /** Print answers as they stream */
+  stream: boolean;
+
+  /** URL of the Rukh API */
+  rukhApiUrl: string;
+
+  /** Maximum API retry attempts */
+  maxRetries: number;
+
+  /** Delay before the first API retry in milliseconds, doubled after each retry */
+  retryDelay: number;
+
+  /** Settings of the providers other than Rukh */
+  providers: Record<string, ProviderSettings>;
+}
+
+/**
+ * Origin of an effective setting
+ */
+export type SettingSource = "default" | "user" | "repo" | "flag";
+
+/**
+ * Options controlling how a query and its file updates are handled
+ */
+export interface QueryOptions {
+  /** Apply proposed file changes without interactive review */
+  autoApprove?: boolean;
+
+  /** Identifier of the query, used to journal applied file changes */
+  queryId?: string;
+
+  /** Query text, recorded in the change journal */
+  query?: string;
+
+  /** Commit file changes on a new branch instead of the working tree */
+  branch?: boolean;
+
+  /** Conversation session to continue, empty to start a new one */
+  sessionId?: string;
+
+  /** Print the answer before reviewing file updates */
+  printAnswer?: boolean;
+
+  /** Save proposed file changes instead of applying them */
+  dryRun?: boolean;
+
+  /** Commands checking applied file changes, such as a build or tests */
+  verify?: string[];
+
+  /** Follow-up queries asking to fix failed checks, none if unset */
+  maxRepairs?: number;
+
+  /** Request a streamed answer and print it as it arrives */
+  stream?: boolean;
+
+  /** LLM provider to query, defaults to Rukh */
+  provider?: string;
+
+  /** Model to use with the provider */
+  model?: string;
+
+  /** Endpoint URL of the provider */
+  providerUrl?: string;
+
+  /** URL of the Rukh API, constants.RUKH_API_URL if unset */
+  rukhApiUrl?: string;
+
+  /** Maximum API retry attempts, constants.MAX_RETRIES if unset */
+  maxRetries?: number;
+
+  /** Delay before the first API retry in milliseconds, constants.RETRY_DELAY if unset */
+  retryDelay?: number;
+
+  /** Settings of the providers other than Rukh, constants.PROVIDERS if unset */
+  providers?: Record<string, ProviderSettings>;
+}
+
+/**
+ * Query sent to an LLM provider
+ */
+export interface ProviderRequest {
+  /** Query text */
+  query: string;
+
+  /** Exported repository content */
+  context: string;
+
+  /** Model overriding the provider default */
+  model?: string;
+
+  /** Endpoint URL overriding the provider default */
+  url?: string;
+
+  /** Time budget of the request in milliseconds, retries included */
+  timeout: number;
+
+  /** Settings of the providers, constants.PROVIDERS if unset */
+  providers?: Record<string, ProviderSettings>;
+
+  /** Maximum retry attempts, constants.MAX_RETRIES if unset */
+  maxRetries?: number;
+
+  /** Delay before the first retry in milliseconds, constants.RETRY_DELAY if unset */
+  retryDelay?: number;
+
+  /** Called before waiting to retry a failed attempt */
+  onRetry?: (retry: HttpRetry) => void;
+
+  /** Receives the answer text as it streams, the reply is streamed only if set */
+  onText?: (text: string) => void;
+}
+
+/**
+ * LLM provider backend
+ */
+export interface LlmProvider {
+  /** Builds the HTTP headers of a request */
+  buildHeaders(apiKey: string): Record<string, string>;
+
+  /** Builds the JSON body of a request */
+  buildBody(
+    model: string,
+    systemPrompt: string,
+    userPrompt: string,
+    stream: boolean
+  ): Record<string, unknown>;
+
+  /** Extracts the answer text from the JSON reply */
+  extractText(reply: any): string;
+
+  /** Framing of streamed replies: server-sent events or JSON lines */
+  streamFormat: "events" | "lines";
+
+  /** Extracts the text added by a chunk of a streamed reply */
+  extractDelta(chunk: any): string;
+}
+
+/**
+ * Retry policy of an HTTP request
+ */
+export interface HttpRequestOptions {
+  /** Attempts before giving up, the first one included */
+  maxAttempts: number;
+
+  /** Delay before the first retry in milliseconds, doubled after each retry */
+  retryDelay: number;
+
+  /** Longest delay between two attempts in milliseconds */
+  maxRetryDelay: number;
+
+  /** Time budget of the request in milliseconds, retries included */
+  deadline: number;
+
+  /** Key sent with every attempt, so the server can dedupe retried requests */
+  idempotencyKey?: string;
+
+  /** Cancels the request, such as on Ctrl+C */
+  signal?: AbortSignal;
+
+  /** Called before waiting to retry */
+  onRetry?: (retry: HttpRetry) => void;
+}
+
+/**
+ * Retry about to happen after a failed attempt
+ */
+export interface HttpRetry {
+  /** Number of the next attempt, from 2 */
+  attempt: number;
+
+  /** Wait before the next attempt in milliseconds */
+  delay: number;
+
+  /** Why the previous attempt failed */
+  reason: string;
+}
+
+/**
+ * Event of a server-sent events stream
+ */
+export interface ServerSentEvent {
+  /** Event name, "message" if unnamed */
+  event: string;
+
+  /** Data lines of the event, joined by newlines */
+  data: string;
 }
 
 /**
@@ -30,6 +392,206 @@ export interface FileContent {
 
   /** Content of the file */
   fileContent: string;
+
+  /** Why the content is incomplete, if it is */
+  note?: string;
+}
+
+/**
+ * What a file holds, as far as the export is concerned
+ */
+export interface FileInspection {
+  /** Text is exported, other kinds are replaced by a placeholder */
+  kind: "text" | "image" | "binary" | "large";
+
+  /** Size in bytes */
+  size: number;
+
+  /** MIME type, from the leading bytes or the extension */
+  mimeType: string;
+}
+
+/**
+ * Rules telling which paths are left out of an export
+ */
+export interface IgnoreRules {
+  /**
+   * Reads the ignore files of a directory, before its entries are checked
+   * @param relativeDir Path relative to the export root, empty for the root
+   */
+  loadDirectory(relativeDir: string): Promise<void>;
+
+  /**
+   * Tells if a path is left out of the export
+   * @param relativePath Path relative to the export root, ending with a slash for directories
+   */
+  ignores(relativePath: string): boolean;
+}
+
+/**
+ * File being cut down by a truncation strategy
+ */
+export interface TruncationContext {
+  /** Path relative to the repository root */
+  relativePath: string;
+
+  /** Maximum number of lines to keep, including omission markers */
+  maxLines: number;
+
+  /** Keywords of the query, used to find relevant lines */
+  keywords: string[];
+}
+
+/**
+ * Way of cutting a long file down to a number of lines
+ */
+export interface TruncationStrategy {
+  /** What the kept lines are, added to the note of cut files */
+  description?: string;
+
+  /**
+   * Keeps the lines worth exporting
+   * @returns The kept lines, or null if the strategy does not apply to the file
+   */
+  truncate(lines: string[], context: TruncationContext): string[] | null;
+}
+
+/**
+ * Kind of secret and how to find it in a file
+ */
+export interface SecretDetector {
+  /**
+   * Tells whether the detector looks at a file, all files if unset
+   * @param relativePath Path relative to the repository root
+   */
+  appliesTo?(relativePath: string): boolean;
+
+  /**
+   * Finds the secrets of a text
+   * @returns Start and end offsets of each secret
+   */
+  find(content: string): [number, number][];
+}
+
+/**
+ * Secret replaced by a placeholder in an exported file
+ */
+export interface Redaction {
+  /** Kind of secret, such as github-token */
+  type: string;
+
+  /** Line of the secret in the original file, from 1 */
+  line: number;
+}
+
+/**
+ * File as written to an export
+ */
+export interface ExportedFile extends FileContent {
+  /** Language tag for syntax highlighting */
+  language: string;
+
+  /** Whether the content was left out */
+  omitted?: boolean;
+
+  /** Secrets replaced by placeholders */
+  redactions?: Redaction[];
+}
+
+/**
+ * Exported file reused by later exports while the file does not change
+ */
+export interface CachedFile {
+  /** Size in bytes when exported */
+  size: number;
+
+  /** Modification time in milliseconds when exported */
+  mtimeMs: number;
+
+  /** SHA-256 of the content, unset for files whose content is left out */
+  hash?: string;
+
+  /** Settings the file was exported with, such as its token budget decision */
+  variant: string;
+
+  /** File as written to the export */
+  file: ExportedFile;
+}
+
+/**
+ * Exported files of previous runs, by path relative to the repository root
+ */
+export interface ExportCache {
+  /** Format version, caches of other versions are discarded */
+  version: number;
+
+  /** Cached files by relative path */
+  entries: Record<string, CachedFile>;
+
+  /** Files reused during the current export, not saved */
+  hits?: number;
+
+  /** Files exported again during the current export, not saved */
+  misses?: number;
+}
+
+/**
+ * Sections written after the files of an export
+ */
+export interface ExportFooter {
+  /** Tree of the repository */
+  structure: string;
+
+  /** Unified diff of the changes, in diff-scoped exports */
+  changes?: string;
+
+  /** Token budget of the export, if any */
+  plan?: TokenBudgetPlan;
+}
+
+/**
+ * Appends content to the output of an export
+ */
+export type ExportAppend = (content: string) => Promise<void>;
+
+/**
+ * Output file of an export, written through a single stream
+ */
+export interface ExportOutput {
+  /** Appends content, waiting for the stream to drain when its buffer is full */
+  append: ExportAppend;
+
+  /** Flushes and closes the stream */
+  close(): Promise<void>;
+}
+
+/**
+ * Reports the progress of an export
+ */
+export type ExportProgress = (
+  processed: number,
+  total: number,
+  file?: ExportedFile
+) => void;
+
+/**
+ * Writes an export in a given format, created once per export
+ */
+export interface ExportWriter {
+  /** Extension of the output file, including the dot */
+  extension: string;
+
+  /** Writes what comes before the files */
+  writeHeader(repoName: string, append: ExportAppend): Promise<void>;
+
+  /** Writes a directory, before the files it contains */
+  writeDirectory(relativePath: string, append: ExportAppend): Promise<void>;
+
+  /** Writes a file */
+  writeFile(file: ExportedFile, append: ExportAppend): Promise<void>;
+
+  /** Writes what comes after the files */
+  writeFooter(footer: ExportFooter, append: ExportAppend): Promise<void>;
 }
 
 /**
@@ -42,8 +604,14 @@ export interface RukhResponse {
   /** Alternative response field */
   answer?: string;
 
-  /** Files to update */
-  filesToUpdate?: FileToUpdate[];
+  /** Version of the response schema the answer follows */
+  schemaVersion?: number;
+
+  /** Files to update, with their full content or a patch */
+  filesToUpdate?: FileChangeSpec[];
+
+  /** Conversation session the answer belongs to */
+  sessionId?: string;
 }
 
 /**
@@ -53,8 +621,346 @@ export interface FileToUpdate {
   /** Path of the file to update */
   fileName: string;
 
-  /** New content for the file */
+  /** New content for the file, at its new path if renamed, unused if deleted */
   fileContent: string;
+
+  /** Deletes or renames the file instead of only writing it */
+  operation?: "delete" | "rename";
+
+  /** New path of a renamed file */
+  newFileName?: string;
+}
+
+/**
+ * Block of a file to replace, found by its exact text or, failing that,
+ * by its lines whatever their whitespace
+ */
+export interface SearchReplaceEdit {
+  /** Text to find, which must appear once in the file */
+  search: string;
+
+  /** Text replacing it */
+  replace: string;
+}
+
+/**
+ * Operation a file change performs
+ */
+export type FileOperation = "create" | "modify" | "delete" | "rename";
+
+/**
+ * File change proposed by the model, as its full content or as a patch
+ */
+export interface FileChangeSpec {
+  /** Path of the file to update */
+  fileName: string;
+
+  /** What the change does, creating or modifying the file if not given */
+  operation?: FileOperation;
+
+  /** New path of a renamed file */
+  newFileName?: string;
+
+  /** Why the model changes the file */
+  rationale?: string;
+
+  /** New content of the file, written as is unless a patch is given */
+  fileContent?: string;
+
+  /** Unified diff of the file */
+  diff?: string;
+
+  /** Blocks of the file to replace, in order */
+  edits?: SearchReplaceEdit[];
+}
+
+/**
+ * Hunk of a diff, or search-replace edit, that could not be applied
+ */
+export interface FailedEdit {
+  /** Position of the hunk or edit in the patch, from 1, 0 for the whole change */
+  index: number;
+
+  /** Why it could not be applied */
+  reason: string;
+}
+
+/**
+ * Outcome of a command checking applied file changes
+ */
+export interface VerificationResult {
+  /** Command line, run in a shell */
+  command: string;
+
+  /** Whether the command exited with code 0 */
+  passed: boolean;
+
+  /** Exit code, null if the command was killed */
+  exitCode: number | null;
+
+  /** Standard output followed by standard error */
+  output: string;
+
+  /** Run time in milliseconds */
+  durationMs: number;
+}
+
+/**
+ * Part of an API response that does not follow the response schema
+ */
+export interface ResponseIssue {
+  /** Where the issue is, such as filesToUpdate[2].fileContent */
+  path: string;
+
+  /** What is wrong */
+  message: string;
+}
+
+/**
+ * Result of checking whether a file update may be written
+ */
+export interface PathCheckResult {
+  /** Whether the path may be written */
+  allowed: boolean;
+
+  /** Absolute path of the file, if allowed */
+  filePath?: string;
+
+  /** Why the path was rejected */
+  reason?: string;
+}
+
+/**
+ * File update rejected by the path policy
+ */
+export interface RejectedFileUpdate {
+  /** Path proposed by the API */
+  fileName: string;
+
+  /** Why the file update was rejected */
+  reason: string;
+}
+
+/**
+ * Record of a single file change applied from an API response
+ */
+export interface JournalEntry {
+  /** Path of the file relative to the repository root */
+  fileName: string;
+
+  /** Whether the file was created by the query (true) or modified (false) */
+  created: boolean;
+
+  /** Content before the change, null if the file was created */
+  originalContent: string | null;
+
+  /** Encoding of originalContent, utf8 in journals written before base64 */
+  encoding?: "base64";
+
+  /** Content written by the query, empty if the file was deleted */
+  newContent: string;
+
+  /** SHA-256 of the file after the change, null if the file was deleted */
+  newHash?: string | null;
+
+  /** Directories created to hold the file, relative to the repository root */
+  createdDirs: string[];
+
+  /** Whether the query deleted the file */
+  deleted?: boolean;
+
+  /** Path the query renamed the file from */
+  renamedFrom?: string;
+}
+
+/**
+ * File change proposed by a query run with --dry-run
+ */
+export interface ProposedFile {
+  /** Path of the file, relative to the repository root */
+  fileName: string;
+
+  /** What applying the proposal does to the file */
+  change: "created" | "modified" | "unchanged" | "deleted" | "renamed";
+
+  /** New path of a renamed file */
+  newFileName?: string;
+
+  /** Number of added lines */
+  added: number;
+
+  /** Number of removed lines */
+  removed: number;
+
+  /** SHA-256 of the file when proposed, null if it did not exist */
+  baseHash: string | null;
+}
+
+/**
+ * File changes of a query run with --dry-run, saved to be applied later
+ */
+export interface Proposal {
+  /** Proposal identifier, also the query identifier once applied */
+  id: string;
+
+  /** Query text, if known */
+  query?: string;
+
+  /** ISO date at which the changes were proposed */
+  timestamp: string;
+
+  /** Output of the API, used in commit messages in branch mode */
+  summary: string;
+
+  /** Proposed file changes, in order */
+  files: ProposedFile[];
+}
+
+/**
+ * Change journal of a single query
+ */
+export interface QueryJournal {
+  /** Query identifier */
+  queryId: string;
+
+  /** Query text, if known */
+  query?: string;
+
+  /** ISO date at which the changes were applied */
+  timestamp: string;
+
+  /** Applied file changes, in order */
+  entries: JournalEntry[];
+
+  /** ISO date at which the changes were undone, if they were */
+  undoneAt?: string;
+}
+
+/**
+ * A single query and answer in a conversation session
+ */
+export interface SessionTurn {
+  /** Query text */
+  query: string;
+
+  /** Path of the saved answer, relative to the Zhankai directory */
+  transcript: string;
+
+  /** ISO date of the query */
+  timestamp: string;
+}
+
+/**
+ * Conversation session with the Rukh API
+ */
+export interface Session {
+  /** Session identifier returned by the API */
+  id: string;
+
+  /** ISO date of the first query */
+  createdAt: string;
+
+  /** ISO date of the latest query */
+  updatedAt: string;
+
+  /** Queries sent in this session, in order */
+  turns: SessionTurn[];
+}
+
+/**
+ * Conversation sessions of a repository
+ */
+export interface SessionStore {
+  /** Session continued by the next query */
+  currentSessionId?: string;
+
+  /** Known sessions */
+  sessions: Session[];
+}
+
+/**
+ * Changes compared by git diff
+ */
+export interface DiffScope {
+  /** Ref to compare against, the index or HEAD if unset */
+  ref?: string;
+
+  /** Only compare staged changes */
+  staged?: boolean;
+}
+
+/**
+ * Directory or file of an export
+ */
+export interface ExportEntry {
+  /** Path relative to the repository root */
+  relativePath: string;
+
+  /** Whether the entry is a directory */
+  isDirectory: boolean;
+}
+
+/**
+ * Order in which files get the token budget: most relevant to the query,
+ * most recently changed, or smallest first
+ */
+export type BudgetPriority = "relevance" | "recent" | "size";
+
+/**
+ * Size of a file in the export
+ */
+export interface FileTokenStats {
+  /** Path relative to the repository root */
+  path: string;
+
+  /** Number of lines of the file */
+  lines: number;
+
+  /** Estimated tokens of the file as exported */
+  tokens: number;
+
+  /** Estimated tokens of the file once omitted, with its mention in the footer */
+  omittedTokens: number;
+
+  /** Estimated tokens of the exported content alone, cut down when truncated */
+  contentTokens: number;
+
+  /** Number of query keyword matches in the path and content */
+  relevance: number;
+
+  /** Last change time in milliseconds, from git or the file system */
+  modifiedAt: number;
+}
+
+/**
+ * How a file fits in the token budget
+ */
+export interface TokenBudgetDecision {
+  /** Whether the file is exported in full, truncated or omitted */
+  action: "include" | "truncate" | "omit";
+
+  /** Number of lines kept when truncated */
+  maxLines?: number;
+}
+
+/**
+ * Token budget of an export
+ */
+export interface TokenBudgetPlan {
+  /** Decision for each file, by relative path */
+  decisions: Record<string, TokenBudgetDecision>;
+
+  /** Maximum estimated tokens */
+  maxTokens: number;
+
+  /** Estimated tokens of the export */
+  usedTokens: number;
+
+  /** Files cut to fit the budget */
+  truncated: string[];
+
+  /** Files left out to fit the budget */
+  omitted: string[];
 }
 
 /**
@@ -0,0 +1,171 @@
+import { exec } from "child_process";
+import { colors } from "../config/constants";
+import { logger } from "../ui/logger";
+import { VerificationResult } from "./types";
+
+/** Longest a verification command may run, in milliseconds */
+const COMMAND_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Last lines of a failed command sent back to the model */
+const MAX_REPAIR_OUTPUT_LINES = 80;
+
+/**
+ * Runs a command in a shell, capturing its output whatever its exit code
+ */
+const runShell = (
+  command: string,
+  dir: string
+): Promise<{ exitCode: number | null; output: string }> =>
+  new Promise((resolve) => {
+    exec(
+      command,
+      {
+        cwd: dir,
+        timeout: COMMAND_TIMEOUT_MS,
+        maxBuffer: 64 * 1024 * 1024,
+        // Color codes would clutter the output sent back to the model
+        env: { ...process.env, FORCE_COLOR: "0", NO_COLOR: "1", CI: "1" },
+      },
+      (error, stdout, stderr) => {
+        const output = [stdout, stderr]
+          .filter((text) => text.trim())
+          .join("\n");
+        // Commands killed on timeout have no exit code
+        const exitCode = !error
+          ? 0
+          : typeof error.code === "number"
+          ? error.code
+          : null;
+
+        resolve({
+          exitCode,
+          output: error && !output ? error.message : output,
+        });
+      }
+    );
+  });
+
+/**
+ * Describes how a failed command exited
+ */
+const describeExit = (exitCode: number | null): string =>
+  exitCode === null ? "killed" : `exit code ${exitCode}`;
+
+/**
+ * Formats a duration in milliseconds as seconds
+ */
+const formatDuration = (durationMs: number): string =>
+  `${(durationMs / 1000).toFixed(1)}s`;
+
+/**
+ * Verification utilities namespace
+ */
+export const verifyUtils = {
+  /**
+   * Runs a command checking the working tree
+   */
+  async runCheck(
+    command: string,
+    dir: string = process.cwd()
+  ): Promise<VerificationResult> {
+    const start = Date.now();
+    const { exitCode, output } = await runShell(command, dir);
+
+    return {
+      command,
+      passed: exitCode === 0,
+      exitCode,
+      output,
+      durationMs: Date.now() - start,
+    };
+  },
+
+  /**
+   * Runs every check in order, even after one fails, so the summary is
+   * complete
+   */
+  async runChecks(
+    commands: string[],
+    dir: string = process.cwd()
+  ): Promise<VerificationResult[]> {
+    const results: VerificationResult[] = [];
+
+    for (const command of commands) {
+      logger.info(`Running ${command}...`);
+      results.push(await this.runCheck(command, dir));
+    }
+
+    return results;
+  },
+
+  /**
+   * Prints whether each check passed
+   */
+  printSummary(results: VerificationResult[]): void {
+    const failed = results.filter((result) => !result.passed).length;
+
+    logger.info(
+      failed === 0
+        ? `${colors.FG_GREEN}✓ All ${results.length} check(s) passed${colors.RESET}`
+        : `${colors.FG_RED}✗ ${failed} of ${results.length} check(s) failed${colors.RESET}`
+    );
+
+    for (const result of results) {
+      const status = result.passed
+        ? `${colors.FG_GREEN}✓${colors.RESET}`
+        : `${colors.FG_RED}✗${colors.RESET}`;
+      const details = result.passed
+        ? formatDuration(result.durationMs)
+        : `${describeExit(result.exitCode)}, ${formatDuration(
+            result.durationMs
+          )}`;
+
+      logger.info(`  ${status} ${result.command} (${details})`);
+    }
+  },
+
+  /**
+   * Writes the follow-up query asking the model to fix failed checks, with
+   * the end of their output
+   * @param files Changed files with their current content, since the export
+   * sent with the query predates the changes
+   */
+  createRepairQuery(
+    results: VerificationResult[],
+    files: { fileName: string; content: string }[] = []
+  ): string {
+    const failures = results
+      .filter((result) => !result.passed)
+      .map((result) => {
+        const lines = result.output.trimEnd().split("\n");
+        const shown = lines.slice(-MAX_REPAIR_OUTPUT_LINES).join("\n");
+        const omitted =
+          lines.length > MAX_REPAIR_OUTPUT_LINES
+            ? `... ${
+                lines.length - MAX_REPAIR_OUTPUT_LINES
+              } lines omitted ...\n`
+            : "";
+
+        return `### \`${result.command}\` (${describeExit(
+          result.exitCode
+        )})\n\n\`\`\`\n${omitted}${shown}\n\`\`\``;
+      });
+
+    const contents = files.map(
+      ({ fileName, content }) =>
+        `### \`${fileName}\`\n\n\`\`\`\n${content.trimEnd()}\n\`\`\``
+    );
+
+    return [
+      "The file changes you proposed were applied, but these checks fail:",
+      ...failures,
+      ...(contents.length > 0
+        ? [
+            "The attached export predates the changes. The changed files now read:",
+            ...contents,
+          ]
+        : []),
+      "Fix the errors with the smallest changes to the files.",
+    ].join("\n\n");
+  },
+};
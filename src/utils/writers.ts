@@ -0,0 +1,224 @@
+import { markdownUtils } from "./markdown";
+import { ExportAppend, ExportWriter, TokenBudgetPlan } from "./types";
+
+/**
+ * Summarizes a token budget in one line
+ */
+const describeBudget = (plan: TokenBudgetPlan): string =>
+  `~${plan.usedTokens} of ${plan.maxTokens} tokens, ${plan.truncated.length} file(s) truncated, ${plan.omitted.length} file(s) omitted`;
+
+/**
+ * Escapes text for XML content
+ */
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Markdown with a heading and a fenced block per file
+ */
+const createMarkdownWriter = (): ExportWriter => ({
+  extension: ".md",
+
+  async writeHeader(repoName, append) {
+    await append(`# ${repoName}\n\n`);
+  },
+
+  async writeDirectory(relativePath, append) {
+    await append(`\n## ${relativePath}\n\n`);
+  },
+
+  async writeFile(file, append) {
+    if (file.omitted) {
+      await append(`\n### ${file.fileName}\n\n[${file.note}]\n`);
+      return;
+    }
+
+    await append(`\n### ${file.fileName}\n\n`);
+    await append("```" + file.language + "\n");
+    await append(file.fileContent);
+    await append("\n```\n");
+
+    if (file.note) {
+      await append(`\n[${file.note}]\n`);
+    }
+  },
+
+  async writeFooter(footer, append) {
+    if (footer.changes !== undefined) {
+      await append(
+        `\n## Changes\n\n\`\`\`diff\n${
+          footer.changes || "No changes\n"
+        }\`\`\`\n`
+      );
+    }
+
+    await append(`\n## Structure\n\n\`\`\`\n${footer.structure}\`\`\`\n`);
+
+    if (footer.plan) {
+      await append(`\nToken budget: ${describeBudget(footer.plan)}\n`);
+    }
+
+    await append(`\nTimestamp: ${markdownUtils.generateTimestamp()}`);
+  },
+});
+
+/**
+ * JSON object with the files as FileContent entries
+ */
+const createJsonWriter = (): ExportWriter => {
+  let fileCount = 0;
+
+  return {
+    extension: ".json",
+
+    async writeHeader(repoName, append) {
+      await append(`{\n  "repo": ${JSON.stringify(repoName)},\n  "files": [`);
+    },
+
+    async writeDirectory() {
+      // Directories are implied by the file names
+    },
+
+    async writeFile(file, append) {
+      const { fileName, fileContent, note } = file;
+      const entry = JSON.stringify(
+        note ? { fileName, fileContent, note } : { fileName, fileContent }
+      );
+
+      await append(`${fileCount > 0 ? "," : ""}\n    ${entry}`);
+      fileCount++;
+    },
+
+    async writeFooter(footer, append) {
+      const fields: Record<string, unknown> = { structure: footer.structure };
+
+      if (footer.changes !== undefined) {
+        fields.changes = footer.changes;
+      }
+
+      if (footer.plan) {
+        const { maxTokens, usedTokens, truncated, omitted } = footer.plan;
+        fields.tokenBudget = { maxTokens, usedTokens, truncated, omitted };
+      }
+
+      fields.timestamp = new Date().toISOString();
+
+      const lines = Object.entries(fields).map(
+        ([key, value]) => `  ${JSON.stringify(key)}: ${JSON.stringify(value)}`
+      );
+      await append(
+        `${fileCount > 0 ? "\n  " : ""}],\n${lines.join(",\n")}\n}\n`
+      );
+    },
+  };
+};
+
+/**
+ * XML with a document block per file, as recommended for Claude prompts
+ */
+const createXmlWriter = (): ExportWriter => {
+  let index = 0;
+
+  return {
+    extension: ".xml",
+
+    async writeHeader(repoName, append) {
+      await append(`<documents repo="${escapeXml(repoName)}">\n`);
+    },
+
+    async writeDirectory() {
+      // Directories are implied by the sources
+    },
+
+    async writeFile(file, append) {
+      index++;
+      let document = `<document index="${index}">\n<source>${escapeXml(
+        file.fileName
+      )}</source>\n`;
+
+      if (file.note) {
+        document += `<note>${escapeXml(file.note)}</note>\n`;
+      }
+
+      if (!file.omitted) {
+        document += `<document_content>\n${escapeXml(
+          file.fileContent
+        )}\n</document_content>\n`;
+      }
+
+      await append(`${document}</document>\n`);
+    },
+
+    async writeFooter(footer, append) {
+      let content = `<structure>\n${escapeXml(footer.structure)}</structure>\n`;
+
+      if (footer.changes !== undefined) {
+        content += `<changes>\n${escapeXml(footer.changes)}</changes>\n`;
+      }
+
+      if (footer.plan) {
+        content += `<token_budget>${describeBudget(
+          footer.plan
+        )}</token_budget>\n`;
+      }
+
+      content += `<timestamp>${new Date().toISOString()}</timestamp>\n`;
+      await append(`${content}</documents>\n`);
+    },
+  };
+};
+
+/**
+ * Supported export formats, add a factory here to support a new one
+ */
+const writers: Record<string, () => ExportWriter> = {
+  markdown: createMarkdownWriter,
+  json: createJsonWriter,
+  xml: createXmlWriter,
+};
+
+/**
+ * Writer utilities namespace
+ */
+export const writerUtils = {
+  /**
+   * Lists the names of all supported export formats
+   */
+  listFormats(): string[] {
+    return Object.keys(writers);
+  },
+
+  /**
+   * Creates a writer for a single export
+   * @param format Export format, markdown if unset
+   */
+  createWriter(format: string = "markdown"): ExportWriter {
+    const createWriter = writers[format];
+
+    if (!createWriter) {
+      throw new Error(
+        `Unknown format "${format}". Available formats: ${this.listFormats().join(
+          ", "
+        )}`
+      );
+    }
+
+    return createWriter();
+  },
+
+  /**
+   * Renders part of an export with a new writer, to measure it
+   * @param format Export format, markdown if unset
+   * @param write Writes the part with the writer
+   */
+  async render(
+    format: string | undefined,
+    write: (writer: ExportWriter, append: ExportAppend) => Promise<void>
+  ): Promise<string> {
+    let output = "";
+    await write(this.createWriter(format), async (content) => {
+      output += content;
+    });
+    return output;
+  },
+};
@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import prompts from "prompts";
+import { ChatRepl } from "../../src/ui/chat";
+import { apiUtils } from "../../src/utils/api";
+import { exportUtils } from "../../src/utils/export";
+import { fileUtils } from "../../src/utils/file";
+import { journalUtils } from "../../src/utils/journal";
+import { sessionUtils } from "../../src/utils/session";
+
+vi.mock("prompts", () => ({ default: vi.fn() }));
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/utils/api", () => ({
+  apiUtils: { sendQueryToRukh: vi.fn() },
+}));
+
+vi.mock("../../src/utils/export", () => ({
+  exportUtils: {
+    setupOutputDirectory: vi.fn(),
+    generateRepoDocumentation: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/utils/file", () => ({
+  fileUtils: {
+    getUniqueFilename: vi.fn(),
+    getIgnoreRules: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/utils/journal", () => ({
+  journalUtils: {
+    createQueryId: vi.fn(),
+    undo: vi.fn(),
+    getJournal: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/utils/session", () => ({
+  sessionUtils: {
+    getCurrentSessionId: vi.fn(),
+    clearCurrentSession: vi.fn(),
+  },
+}));
+
+/**
+ * Makes the prompt return the given inputs in order, then cancel
+ */
+const typeInputs = (...inputs: string[]) => {
+  const mocked = vi.mocked(prompts);
+  for (const input of inputs) {
+    mocked.mockResolvedValueOnce({ input });
+  }
+  mocked.mockResolvedValue({});
+};
+
+describe("ChatRepl", () => {
+  const config = { output: "", depth: Infinity, contents: true };
+
+  beforeEach(() => {
+    vi.resetAllMocks();
+    vi.mocked(exportUtils.setupOutputDirectory).mockResolvedValue(
+      "/repo/zhankai"
+    );
+    vi.mocked(fileUtils.getUniqueFilename).mockImplementation(
+      async (p) => p
+    );
+    vi.mocked(journalUtils.createQueryId).mockReturnValue("q1");
+    vi.mocked(sessionUtils.getCurrentSessionId).mockResolvedValue("s1");
+  });
+
+  it("should generate the context once and stop on /exit", async () => {
+    typeInputs("/exit", "never sent");
+
+    await new ChatRepl(config, "/repo", "repo").start();
+
+    expect(exportUtils.generateRepoDocumentation).toHaveBeenCalledTimes(1);
+    expect(apiUtils.sendQueryToRukh).not.toHaveBeenCalled();
+  });
+
+  it("should send prompts and continue the answered session", async () => {
+    typeInputs("first", "second");
+
+    await new ChatRepl(config, "/repo", "repo").start();
+
+    const calls = vi.mocked(apiUtils.sendQueryToRukh).mock.calls;
+    expect(calls).toHaveLength(2);
+    expect(calls[0][0]).toBe("first");
+    expect(calls[0][1]).toBe("/repo/zhankai/repo_app_description.md");
+    expect(calls[0][4]).toMatchObject({ sessionId: "", printAnswer: true });
+    expect(calls[1][4]).toMatchObject({ sessionId: "s1" });
+  });
+
+  it("should handle /refresh and /undo", async () => {
+    typeInputs("/refresh", "/undo");
+
+    await new ChatRepl(config, "/repo", "repo").start();
+
+    expect(exportUtils.generateRepoDocumentation).toHaveBeenCalledTimes(2);
+    expect(journalUtils.undo).toHaveBeenCalledWith();
+  });
+});
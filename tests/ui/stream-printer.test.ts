@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { StreamPrinter } from "../../src/ui/stream-printer";
+
+describe("StreamPrinter", () => {
+  let originalStdoutWrite: typeof process.stdout.write;
+  let output: string;
+
+  beforeEach(() => {
+    originalStdoutWrite = process.stdout.write;
+    output = "";
+    process.stdout.write = vi.fn((text: string) => {
+      output += text;
+      return true;
+    }) as unknown as typeof process.stdout.write;
+  });
+
+  afterEach(() => {
+    process.stdout.write = originalStdoutWrite;
+  });
+
+  it("should print complete lines as they arrive", () => {
+    const printer = new StreamPrinter();
+
+    printer.write("- fir");
+    expect(output).toBe("\n");
+
+    printer.write("st\n```ts\nconst a = 1;\n``");
+    expect(output).toBe("\n  • first\n\n    const a = 1;\n");
+
+    printer.write("`\nDone");
+    printer.end();
+    printer.end();
+
+    expect(output).toBe("\n  • first\n\n    const a = 1;\n\nDone\n\n");
+    expect(printer.hasPrinted).toBe(true);
+  });
+
+  it("should print nothing when nothing streamed", () => {
+    const printer = new StreamPrinter();
+
+    printer.end();
+
+    expect(output).toBe("");
+    expect(printer.hasPrinted).toBe(false);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { binaryUtils } from "../../src/utils/binary";
+import { constants } from "../../src/config/constants";
+
+describe("binaryUtils", () => {
+  let dir: string;
+  const maxFileSize = constants.MAX_FILE_SIZE;
+
+  const write = (name: string, content: string | Buffer) => {
+    const filePath = path.join(dir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-binary-"));
+  });
+
+  afterEach(() => {
+    constants.MAX_FILE_SIZE = maxFileSize;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("inspect", () => {
+    it("should accept UTF-8 text", async () => {
+      const filePath = write("notes.md", "# Notes\n\nCafé ✓ 日本語\n");
+
+      expect(await binaryUtils.inspect(filePath)).toEqual({
+        kind: "text",
+        size: fs.statSync(filePath).size,
+        mimeType: "text/markdown",
+      });
+    });
+
+    it("should detect formats from their magic numbers", async () => {
+      const wasm = write(
+        "module.bin",
+        Buffer.from([0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00])
+      );
+      const pdf = write(
+        "report",
+        Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1")
+      );
+
+      expect(await binaryUtils.inspect(wasm)).toMatchObject({
+        kind: "binary",
+        mimeType: "application/wasm",
+      });
+      expect(await binaryUtils.inspect(pdf)).toMatchObject({
+        kind: "binary",
+        mimeType: "application/pdf",
+      });
+    });
+
+    it("should not trust printable magic numbers in text", async () => {
+      const sqlite = write("notes.txt", "SQLite format 3 is documented here\n");
+      const id3 = write("ID3.md", "ID3 tags describe MP3 files\n");
+
+      expect((await binaryUtils.inspect(sqlite)).kind).toBe("text");
+      expect((await binaryUtils.inspect(id3)).kind).toBe("text");
+      expect(
+        await binaryUtils.inspect(
+          write("music", Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0x00]))
+        )
+      ).toMatchObject({ kind: "binary", mimeType: "audio/mpeg" });
+    });
+
+    it("should detect null bytes and invalid UTF-8", async () => {
+      const nulls = write("data.bin", Buffer.from("abc\0def"));
+      const latin1 = write(
+        "legacy.txt",
+        Buffer.from("caf\xe9 au lait", "latin1")
+      );
+
+      expect(await binaryUtils.inspect(nulls)).toMatchObject({
+        kind: "binary",
+        mimeType: "application/octet-stream",
+      });
+      expect((await binaryUtils.inspect(latin1)).kind).toBe("binary");
+    });
+
+    it("should not read images and files over the size limit", async () => {
+      constants.MAX_FILE_SIZE = 10;
+      const image = write("logo.svg", "<svg></svg>");
+      const large = write("package-lock.json", "{}".repeat(10));
+
+      expect(await binaryUtils.inspect(image)).toMatchObject({
+        kind: "image",
+        mimeType: "image/svg+xml",
+      });
+      expect(await binaryUtils.inspect(large)).toEqual({
+        kind: "large",
+        size: 20,
+        mimeType: "application/json",
+      });
+    });
+  });
+
+  describe("looksBinary", () => {
+    it("should accept a multi-byte character cut by the sample", () => {
+      const sample = Buffer.from("ok ✓", "utf8").subarray(0, 5);
+
+      expect(binaryUtils.looksBinary(sample)).toBe(false);
+    });
+  });
+
+  describe("describePlaceholder", () => {
+    it("should record the size and MIME type", () => {
+      expect(
+        binaryUtils.describePlaceholder({
+          kind: "large",
+          size: 5 * 1024 * 1024,
+          mimeType: "text/plain",
+        })
+      ).toBe(
+        "File too large to export: text/plain, 5.0 MB, over the 1.0 MB limit"
+      );
+    });
+  });
+});
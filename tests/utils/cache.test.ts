@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { cacheUtils } from "../../src/utils/cache";
+import { constants } from "../../src/config/constants";
+import { ExportedFile } from "../../src/utils/types";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("cacheUtils", () => {
+  let repoDir: string;
+  let filePath: string;
+
+  const exported = (fileContent: string): ExportedFile => ({
+    fileName: "index.ts",
+    fileContent,
+    language: "typescript",
+  });
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-cache-"));
+    filePath = path.join(repoDir, "index.ts");
+    fs.writeFileSync(filePath, "export const a = 1;\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe("getFile", () => {
+    it("should reuse files that did not change", async () => {
+      const cache = cacheUtils.createCache();
+      const exportFile = vi.fn().mockResolvedValue(exported("a"));
+
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v1", exportFile);
+      const file = await cacheUtils.getFile(
+        cache,
+        repoDir,
+        "index.ts",
+        "v1",
+        exportFile
+      );
+
+      expect(file).toEqual(exported("a"));
+      expect(exportFile).toHaveBeenCalledTimes(1);
+      expect(cache).toMatchObject({ hits: 1, misses: 1 });
+    });
+
+    it("should compare contents when only the modification time changed", async () => {
+      const cache = cacheUtils.createCache();
+      const exportFile = vi
+        .fn()
+        .mockResolvedValueOnce(exported("a"))
+        .mockResolvedValueOnce(exported("b"));
+
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v1", exportFile);
+
+      const later = new Date(Date.now() + 60_000);
+      fs.utimesSync(filePath, later, later);
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v1", exportFile);
+      expect(exportFile).toHaveBeenCalledTimes(1);
+
+      // Same size, different content
+      fs.writeFileSync(filePath, "export const b = 2;\n");
+      const file = await cacheUtils.getFile(
+        cache,
+        repoDir,
+        "index.ts",
+        "v1",
+        exportFile
+      );
+
+      expect(file).toEqual(exported("b"));
+      expect(exportFile).toHaveBeenCalledTimes(2);
+    });
+
+    it("should export again with other settings", async () => {
+      const cache = cacheUtils.createCache();
+      const exportFile = vi.fn().mockResolvedValue(exported("a"));
+
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v1", exportFile);
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v2", exportFile);
+
+      expect(exportFile).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("getVariant", () => {
+    it("should depend on the query only for the relevance strategy", () => {
+      const variant = (query: string, truncation?: Record<string, string>) =>
+        cacheUtils.getVariant("index.ts", undefined, { query, truncation });
+
+      expect(variant("fix wallet")).toBe(variant("add tests"));
+      expect(variant("fix wallet", { "*": "relevance" })).not.toBe(
+        variant("add tests", { "*": "relevance" })
+      );
+      expect(
+        cacheUtils.getVariant("index.ts", { action: "omit" }, {})
+      ).not.toBe(variant(""));
+    });
+  });
+
+  describe("save, load and clear", () => {
+    it("should keep the cached files between runs", async () => {
+      const cache = cacheUtils.createCache();
+      await cacheUtils.getFile(cache, repoDir, "index.ts", "v1", async () =>
+        exported("a")
+      );
+
+      await cacheUtils.save(repoDir, cache);
+      const loaded = await cacheUtils.load(repoDir);
+
+      expect(loaded.entries["index.ts"].file).toEqual(exported("a"));
+      expect(loaded).toMatchObject({ hits: 0, misses: 0 });
+
+      expect(await cacheUtils.clear(repoDir)).toBe(true);
+      expect(await cacheUtils.clear(repoDir)).toBe(false);
+      expect((await cacheUtils.load(repoDir)).entries).toEqual({});
+    });
+
+    it("should discard caches of another version", async () => {
+      const cacheDir = path.join(
+        repoDir,
+        constants.ZHANKAI_DIR,
+        constants.CACHE_DIR
+      );
+      fs.mkdirSync(cacheDir, { recursive: true });
+      fs.writeFileSync(
+        path.join(cacheDir, constants.CACHE_FILE),
+        JSON.stringify({ version: 0, entries: { "index.ts": {} } })
+      );
+
+      expect((await cacheUtils.load(repoDir)).entries).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import { concurrencyUtils } from "../../src/utils/concurrency";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("concurrencyUtils", () => {
+  describe("createLimiter", () => {
+    it("should run at most the given number of tasks at once", async () => {
+      const limit = concurrencyUtils.createLimiter(3);
+      let running = 0;
+      let maxRunning = 0;
+
+      const results = await Promise.all(
+        Array.from({ length: 10 }, (_, index) =>
+          limit(async () => {
+            running++;
+            maxRunning = Math.max(maxRunning, running);
+            await delay(5);
+            running--;
+            return index;
+          })
+        )
+      );
+
+      expect(maxRunning).toBe(3);
+      expect(results).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it("should free the slot of failed tasks", async () => {
+      const limit = concurrencyUtils.createLimiter(1);
+
+      await expect(
+        limit(() => Promise.reject(new Error("boom")))
+      ).rejects.toThrow("boom");
+      await expect(limit(async () => "next")).resolves.toBe("next");
+    });
+  });
+
+  describe("forEachOrdered", () => {
+    it("should consume results in order while running tasks ahead", async () => {
+      const started: number[] = [];
+      const consumed: number[] = [];
+      let maxAhead = 0;
+
+      await concurrencyUtils.forEachOrdered(
+        [30, 5, 20, 1, 10, 1],
+        2,
+        async (ms, index) => {
+          started.push(index);
+          maxAhead = Math.max(maxAhead, started.length - consumed.length);
+          await delay(ms);
+          return index;
+        },
+        async (result) => {
+          consumed.push(result);
+        }
+      );
+
+      expect(consumed).toEqual([0, 1, 2, 3, 4, 5]);
+      expect(maxAhead).toBe(2);
+    });
+
+    it("should throw the first failure in order", async () => {
+      const consumed: number[] = [];
+
+      await expect(
+        concurrencyUtils.forEachOrdered(
+          [0, 1, 2, 3],
+          4,
+          async (item) => {
+            if (item >= 2) throw new Error(`failed ${item}`);
+            return item;
+          },
+          async (result) => {
+            consumed.push(result);
+          }
+        )
+      ).rejects.toThrow("failed 2");
+      expect(consumed).toEqual([0, 1]);
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import { diffUtils } from "../../src/utils/diff";
+import { colors } from "../../src/config/constants";
+
+describe("diffUtils", () => {
+  describe("createUnifiedDiff", () => {
+    it("should return an empty string for identical content", () => {
+      const content = "line 1\nline 2\n";
+
+      expect(diffUtils.createUnifiedDiff(content, content, "file.ts")).toBe(
+        ""
+      );
+    });
+
+    it("should diff a new file against /dev/null", () => {
+      const diff = diffUtils.createUnifiedDiff(null, "a\nb\n", "new.ts");
+
+      expect(diff).toBe("--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n");
+    });
+
+    it("should show changed lines with surrounding context", () => {
+      const oldContent = ["1", "2", "3", "4", "5", "6", "7", "8", "9"].join(
+        "\n"
+      );
+      const newContent = ["1", "2", "3", "4", "five", "6", "7", "8", "9"].join(
+        "\n"
+      );
+
+      const diff = diffUtils.createUnifiedDiff(
+        oldContent,
+        newContent,
+        "file.ts",
+        2
+      );
+
+      expect(diff).toBe(
+        "--- a/file.ts\n+++ b/file.ts\n@@ -3,5 +3,5 @@\n 3\n 4\n-5\n+five\n 6\n 7\n"
+      );
+    });
+
+    it("should show a change of the final newline", () => {
+      expect(diffUtils.createUnifiedDiff("a\nb", "a\nb\n", "file.ts")).toBe(
+        "--- a/file.ts\n+++ b/file.ts\n@@ -1,2 +1,2 @@\n a\n-b\n\\ No newline at end of file\n+b\n"
+      );
+      expect(diffUtils.createUnifiedDiff("a\n", "a", "file.ts")).toBe(
+        "--- a/file.ts\n+++ b/file.ts\n@@ -1,1 +1,1 @@\n-a\n+a\n\\ No newline at end of file\n"
+      );
+    });
+
+    it("should split distant changes into separate hunks", () => {
+      const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i}`);
+      const newLines = [...oldLines];
+      newLines[1] = "changed 1";
+      newLines[18] = "changed 18";
+
+      const diff = diffUtils.createUnifiedDiff(
+        oldLines.join("\n"),
+        newLines.join("\n"),
+        "file.ts"
+      );
+
+      expect(diff.match(/^@@/gm)).toHaveLength(2);
+      expect(diff).toContain("@@ -1,5 +1,5 @@");
+      expect(diff).toContain("@@ -16,5 +16,5 @@");
+    });
+  });
+
+  describe("countChanges", () => {
+    it("should count added and removed lines", () => {
+      expect(diffUtils.countChanges("a\nb\nc\n", "a\nB\nc\nd\n")).toEqual({
+        added: 2,
+        removed: 1,
+      });
+    });
+
+    it("should treat a missing file as empty", () => {
+      expect(diffUtils.countChanges(null, "a\nb")).toEqual({
+        added: 2,
+        removed: 0,
+      });
+    });
+  });
+
+  describe("colorize", () => {
+    it("should color added and removed lines", () => {
+      const colored = diffUtils.colorize("+added\n-removed\n context");
+
+      expect(colored).toContain(`${colors.FG_GREEN}+added${colors.RESET}`);
+      expect(colored).toContain(`${colors.FG_RED}-removed${colors.RESET}`);
+      expect(colored).toContain(" context");
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { bench, describe } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileUtils } from "../../src/utils/file";
+import { writerUtils } from "../../src/utils/writers";
+import { IgnoreRules, ZhankaiConfig } from "../../src/utils/types";
+
+const DIRECTORIES = 20;
+const FILES_PER_DIRECTORY = 25;
+const LINES_PER_FILE = 200;
+
+/**
+ * Repository of a few hundred small files, created before each benchmark and
+ * removed after it, as hooks do not run in benchmark mode
+ */
+let repoDir: string;
+let config: ZhankaiConfig;
+let ig: IgnoreRules;
+
+const options = {
+  iterations: 5,
+  warmupIterations: 1,
+  throws: true,
+
+  async setup() {
+    if (repoDir) return;
+
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-bench-"));
+    const content = Array.from(
+      { length: LINES_PER_FILE },
+      (_, index) => `export const value${index} = ${index};`
+    ).join("\n");
+
+    for (let dir = 0; dir < DIRECTORIES; dir++) {
+      const dirPath = path.join(repoDir, "packages", `package-${dir}`, "src");
+      fs.mkdirSync(dirPath, { recursive: true });
+      for (let file = 0; file < FILES_PER_DIRECTORY; file++) {
+        fs.writeFileSync(path.join(dirPath, `module-${file}.ts`), content);
+      }
+    }
+
+    config = {
+      output: path.join(os.tmpdir(), `${path.basename(repoDir)}.md`),
+      depth: Infinity,
+      contents: true,
+    };
+    ig = await fileUtils.getIgnoreRules(repoDir);
+  },
+
+  teardown(_task: unknown, mode?: "run" | "warmup") {
+    if (mode !== "run") return;
+
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(config.output, { force: true });
+    repoDir = "";
+  },
+};
+
+describe("export pipeline", () => {
+  bench(
+    "sequential reads and appends",
+    async () => {
+      const writer = writerUtils.createWriter();
+      const append = (content: string) =>
+        fileUtils.appendFile(config.output, content);
+
+      await fileUtils.writeFile(config.output, "");
+      const entries = await fileUtils.collectEntries(
+        repoDir,
+        config,
+        0,
+        repoDir,
+        ig
+      );
+
+      for (const entry of entries) {
+        if (entry.isDirectory) {
+          await writer.writeDirectory(entry.relativePath, append);
+        } else {
+          await fileUtils.processFile(
+            path.join(repoDir, entry.relativePath),
+            entry.relativePath,
+            config,
+            undefined,
+            writer
+          );
+        }
+      }
+    },
+    options
+  );
+
+  bench(
+    "parallel reads streamed to one output",
+    async () => {
+      const output = fileUtils.openOutputStream(config.output);
+
+      await fileUtils.traverseDirectory(
+        repoDir,
+        config,
+        0,
+        repoDir,
+        ig,
+        undefined,
+        undefined,
+        writerUtils.createWriter(),
+        output.append
+      );
+      await output.close();
+    },
+    options
+  );
+});
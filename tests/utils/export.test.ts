@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { exportUtils } from "../../src/utils/export";
+import { fileUtils } from "../../src/utils/file";
+import { tokenUtils } from "../../src/utils/tokens";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/ui/loader", () => ({
+  TerminalLoader: vi.fn(() => ({
+    start: vi.fn(),
+    stop: vi.fn(),
+    updateMessage: vi.fn(),
+  })),
+}));
+
+describe("exportUtils", () => {
+  let repoDir: string;
+  let outputDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-export-"));
+    outputDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-output-"));
+
+    // Long paths, many directories and content escaped by JSON and XML
+    for (let dir = 0; dir < 5; dir++) {
+      const dirPath = path.join(
+        repoDir,
+        "packages",
+        `feature-module-${dir}`,
+        "src",
+        "components"
+      );
+      fs.mkdirSync(dirPath, { recursive: true });
+
+      for (let file = 0; file < 4; file++) {
+        const lines = Array.from(
+          { length: 20 + dir * 10 + file * 7 },
+          (_, line) =>
+            `\tif (a${line} < "b" && c > '\\\\d') { render("<div>&amp;</div>"); }`
+        );
+        fs.writeFileSync(
+          path.join(dirPath, `ComponentWithAVeryLongName${file}.tsx`),
+          lines.join("\n") + "\n"
+        );
+      }
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(outputDir, { recursive: true, force: true });
+  });
+
+  describe("generateRepoDocumentation", () => {
+    for (const format of ["markdown", "json", "xml"]) {
+      for (const maxTokens of [3000, 20000]) {
+        it(`should keep a ${format} export within ${maxTokens} tokens`, async () => {
+          const output = path.join(outputDir, `export.${format}`);
+          const config = {
+            output,
+            depth: Infinity,
+            contents: true,
+            maxTokens,
+            format,
+            cache: false,
+          };
+
+          await exportUtils.generateRepoDocumentation(
+            repoDir,
+            "repo",
+            config,
+            await fileUtils.getIgnoreRules(repoDir)
+          );
+
+          const rendered = fs.readFileSync(output, "utf8");
+          expect(tokenUtils.estimateTokens(rendered)).toBeLessThanOrEqual(
+            maxTokens
+          );
+          // The budget is used, not left mostly empty
+          expect(tokenUtils.estimateTokens(rendered)).toBeGreaterThan(
+            maxTokens * 0.8
+          );
+        });
+      }
+    }
+  });
+});
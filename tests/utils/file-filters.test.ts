@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { fileUtils } from "../../src/utils/file";
+import { writerUtils } from "../../src/utils/writers";
+import { ZhankaiConfig } from "../../src/utils/types";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("fileUtils include and exclude filters", () => {
+  let repoDir: string;
+  let output: string;
+
+  const write = (relativePath: string, content = "x") => {
+    const filePath = path.join(repoDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const exportRepo = async (
+    include: string[] = [],
+    exclude: string[] = [],
+    files?: string[]
+  ) => {
+    const config: ZhankaiConfig = {
+      output,
+      depth: Infinity,
+      contents: true,
+      files,
+    };
+    const ig = await fileUtils.getIgnoreRules(repoDir, exclude);
+    const includeRules = fileUtils.getIncludeRules(include);
+
+    fs.writeFileSync(output, "");
+    await fileUtils.traverseDirectory(
+      repoDir,
+      config,
+      0,
+      repoDir,
+      ig,
+      includeRules
+    );
+    const structure = await fileUtils.generateFileStructure(
+      repoDir,
+      Infinity,
+      "",
+      true,
+      repoDir,
+      ig,
+      includeRules
+    );
+
+    return { contents: fs.readFileSync(output, "utf8"), structure };
+  };
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-filters-"));
+    output = path.join(os.tmpdir(), `${path.basename(repoDir)}.md`);
+
+    write("package.json", "{}");
+    write("README.md");
+    write("src/index.ts");
+    write("src/index.test.ts");
+    write("src/utils/api.ts");
+    write("docs/guide.md");
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(output, { force: true });
+  });
+
+  it("should export only the included files and their directories", async () => {
+    const { contents, structure } = await exportRepo([
+      "src/**/*.ts",
+      "package.json",
+    ]);
+
+    expect(contents).toContain("### package.json");
+    expect(contents).toContain("### src/utils/api.ts");
+    expect(contents).toContain("## src/utils");
+    expect(contents).not.toContain("README.md");
+    expect(contents).not.toContain("## docs");
+
+    expect(structure).not.toContain("docs");
+    expect(structure).not.toContain("README.md");
+    expect(structure).toContain("api.ts");
+  });
+
+  it("should walk the tree once to find the included directories", async () => {
+    const findSpy = vi.spyOn(fileUtils, "findIncludedDirectories");
+
+    await exportRepo(["src/**/*.ts"]);
+
+    expect(findSpy).toHaveBeenCalledTimes(1);
+    findSpy.mockRestore();
+  });
+
+  it("should only keep directories with included files within the depth", async () => {
+    const ig = await fileUtils.getIgnoreRules(repoDir);
+    const includeRules = fileUtils.getIncludeRules(["**/api.ts"])!;
+
+    expect(
+      await fileUtils.getIncludedDirectories(repoDir, 1, ig, includeRules)
+    ).toEqual(new Set());
+    expect(
+      await fileUtils.getIncludedDirectories(repoDir, 2, ig, includeRules)
+    ).toEqual(new Set(["", "src", "src/utils"]));
+
+    const structure = await fileUtils.generateFileStructure(
+      repoDir,
+      1,
+      "",
+      true,
+      repoDir,
+      ig,
+      includeRules
+    );
+    expect(structure).toBe("");
+  });
+
+  it("should leave excluded files out of both sections", async () => {
+    const { contents, structure } = await exportRepo([], ["**/*.test.ts"]);
+
+    expect(contents).toContain("### src/index.ts");
+    expect(contents).not.toContain("index.test.ts");
+    expect(structure).not.toContain("index.test.ts");
+  });
+
+  it("should apply .zhankaiignore", async () => {
+    write(".zhankaiignore", "docs/\nREADME.md\n");
+
+    const { contents, structure } = await exportRepo();
+
+    expect(contents).not.toContain("guide.md");
+    expect(contents).not.toContain("### README.md");
+    expect(structure).not.toContain("docs");
+    expect(structure).toContain("package.json");
+  });
+
+  it("should export a list of files with the same filters", async () => {
+    write(".zhankaiignore", "src/utils/\n");
+
+    const { contents } = await exportRepo(
+      [],
+      ["**/*.test.ts"],
+      ["src/utils/api.ts", "src/index.test.ts", "src/index.ts", "deleted.ts"]
+    );
+
+    expect(contents).toBe(
+      "\n## src\n\n\n### src/index.ts\n\n```typescript\nx\n```\n"
+    );
+  });
+
+  it("should stream files in traversal order and report progress", async () => {
+    // Large enough to fill the buffer of the stream
+    write("src/utils/api.ts", "api ".repeat(100000));
+    const config: ZhankaiConfig = { output, depth: Infinity, contents: true };
+    const ig = await fileUtils.getIgnoreRules(repoDir);
+    const progress: number[][] = [];
+
+    const stream = fileUtils.openOutputStream(output);
+    await fileUtils.traverseDirectory(
+      repoDir,
+      config,
+      0,
+      repoDir,
+      ig,
+      undefined,
+      undefined,
+      writerUtils.createWriter("json"),
+      stream.append,
+      (processed, total) => progress.push([processed, total])
+    );
+    await stream.close();
+
+    const { files } = JSON.parse(
+      `{"files": [${fs.readFileSync(output, "utf8")}]}`
+    );
+    expect(files.map((file: { fileName: string }) => file.fileName)).toEqual(
+      await fileUtils.collectFiles(repoDir, config, ig)
+    );
+    expect(
+      files.find(
+        (file: { fileName: string }) => file.fileName === "src/utils/api.ts"
+      ).fileContent
+    ).toHaveLength(400000);
+    expect(progress).toEqual([0, 1, 2, 3, 4, 5, 6].map((done) => [done, 6]));
+  });
+
+  it("should close the tree with the last visible entry", async () => {
+    const { structure } = await exportRepo(["docs"]);
+
+    expect(structure).toBe("└── docs\n    └── guide.md\n");
+  });
+});
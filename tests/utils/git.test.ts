@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execSync } from "child_process";
+import { gitUtils } from "../../src/utils/git";
+
+describe("gitUtils", () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-git-"));
+    execSync(
+      "git init -q -b main && git config user.email test@example.com && git config user.name test && git commit -q --allow-empty -m init",
+      { cwd: repoDir }
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe("createBranchName", () => {
+    it("should slugify the query", async () => {
+      const name = await gitUtils.createBranchName(
+        "Add a Login page!",
+        repoDir
+      );
+
+      expect(name).toBe("zhankai/add-a-login-page");
+    });
+
+    it("should avoid existing branch names", async () => {
+      execSync("git branch zhankai/fix-tests", { cwd: repoDir });
+
+      const name = await gitUtils.createBranchName("fix tests", repoDir);
+
+      expect(name).toBe("zhankai/fix-tests-2");
+    });
+  });
+
+  describe("getCurrentRef", () => {
+    it("should give the branch, or the commit of a detached HEAD", async () => {
+      expect(await gitUtils.getCurrentRef(repoDir)).toBe("main");
+
+      const hash = execSync("git rev-parse HEAD", { cwd: repoDir })
+        .toString()
+        .trim();
+      execSync("git checkout -q --detach", { cwd: repoDir });
+      expect(await gitUtils.getCurrentRef(repoDir)).toBe(hash);
+
+      await gitUtils.createBranch("zhankai/detached", repoDir);
+      await gitUtils.checkoutBranch(hash, repoDir);
+      expect(await gitUtils.getCurrentBranch(repoDir)).toBe("HEAD");
+    });
+  });
+
+  describe("moveFile", () => {
+    it("should stage the rename of tracked files", async () => {
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "a");
+      execSync("git add a.txt && git commit -q -m a", { cwd: repoDir });
+      fs.mkdirSync(path.join(repoDir, "src"));
+
+      await gitUtils.moveFile("a.txt", "src/a.txt", repoDir);
+
+      const status = execSync("git status --porcelain", { cwd: repoDir })
+        .toString()
+        .trim();
+      expect(status).toBe("R  a.txt -> src/a.txt");
+    });
+
+    it("should rename untracked files", async () => {
+      fs.writeFileSync(path.join(repoDir, "b.txt"), "b");
+
+      await gitUtils.moveFile("b.txt", "c.txt", repoDir);
+
+      expect(fs.readFileSync(path.join(repoDir, "c.txt"), "utf8")).toBe("b");
+      expect(fs.existsSync(path.join(repoDir, "b.txt"))).toBe(false);
+    });
+  });
+
+  describe("commitFiles", () => {
+    it("should only commit the given files", async () => {
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "a");
+      fs.writeFileSync(path.join(repoDir, "b.txt"), "b");
+
+      await gitUtils.createBranch("zhankai/test", repoDir);
+      const hash = await gitUtils.commitFiles(["a.txt"], "Add a", repoDir);
+
+      const committed = execSync(`git show --name-only --format= ${hash}`, {
+        cwd: repoDir,
+      })
+        .toString()
+        .trim();
+      expect(committed).toBe("a.txt");
+      expect(await gitUtils.getChangedFiles(["a.txt", "b.txt"], repoDir)).toEqual(
+        ["b.txt"]
+      );
+      expect(await gitUtils.getCurrentBranch(repoDir)).toBe("zhankai/test");
+    });
+
+    it("should commit renamed and deleted files", async () => {
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "a");
+      fs.writeFileSync(path.join(repoDir, "b.txt"), "b");
+      execSync("git add . && git commit -q -m ab", { cwd: repoDir });
+
+      await gitUtils.moveFile("a.txt", "c.txt", repoDir);
+      fs.rmSync(path.join(repoDir, "b.txt"));
+      const hash = await gitUtils.commitFiles(
+        ["a.txt", "c.txt", "b.txt"],
+        "Move a, delete b",
+        repoDir
+      );
+
+      const committed = execSync(
+        `git show --name-status --format= -M ${hash}`,
+        { cwd: repoDir }
+      )
+        .toString()
+        .trim()
+        .split("\n");
+      expect(committed).toEqual(["D\tb.txt", "R100\ta.txt\tc.txt"]);
+    });
+  });
+
+  describe("getDiffFiles", () => {
+    beforeEach(() => {
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "a\n");
+      fs.writeFileSync(path.join(repoDir, "b.txt"), "b\n");
+      execSync("git add -A && git commit -q -m files", { cwd: repoDir });
+
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "A\n");
+      fs.rmSync(path.join(repoDir, "b.txt"));
+      fs.writeFileSync(path.join(repoDir, "c.txt"), "c\n");
+    });
+
+    it("should list changed and untracked files since a ref", async () => {
+      const files = await gitUtils.getDiffFiles({ ref: "HEAD" }, repoDir);
+      const diff = await gitUtils.getDiff({ ref: "HEAD" }, repoDir);
+
+      expect(files).toEqual(["a.txt", "c.txt"]);
+      expect(diff).toContain("-a\n+A");
+      expect(diff).toContain("deleted file mode");
+    });
+
+    it("should list staged files only", async () => {
+      execSync("git add a.txt", { cwd: repoDir });
+
+      expect(await gitUtils.getDiffFiles({ staged: true }, repoDir)).toEqual([
+        "a.txt",
+      ]);
+      expect(await gitUtils.getDiff({ staged: true }, repoDir)).not.toContain(
+        "b.txt"
+      );
+    });
+
+    it("should list uncommitted files, null outside a repository", async () => {
+      const files = await gitUtils.getUncommittedFiles(repoDir);
+
+      expect([...(files || [])].sort()).toEqual(["a.txt", "b.txt", "c.txt"]);
+      expect(await gitUtils.getUncommittedFiles(os.tmpdir())).toBeNull();
+    });
+
+    it("should reject unknown refs", async () => {
+      await expect(
+        gitUtils.getDiffFiles({ ref: "missing" }, repoDir)
+      ).rejects.toThrow("Could not diff against missing");
+    });
+  });
+
+  describe("createCommitMessage", () => {
+    it("should use the query as subject and the output prose as body", () => {
+      const message = gitUtils.createCommitMessage(
+        "Add tests",
+        'I added tests.\n\n```ts\ncode\n```\n\n[{"fileName":"a.ts","fileContent":"x"}]'
+      );
+
+      expect(message).toBe("Add tests\n\nI added tests.\n\nGenerated by zhankai");
+    });
+
+    it("should truncate long subjects and keep the full query", () => {
+      const query = "x".repeat(100);
+      const message = gitUtils.createCommitMessage(query);
+
+      expect(message.split("\n")[0]).toHaveLength(72);
+      expect(message).toContain(`Query: ${query}`);
+    });
+  });
+});
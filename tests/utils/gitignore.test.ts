@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFileSync } from "child_process";
+import { fileUtils } from "../../src/utils/file";
+import { IgnoreRules } from "../../src/utils/types";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("gitignoreUtils", () => {
+  let tempDir: string;
+  let repoDir: string;
+
+  const write = (relativePath: string, content = "x") => {
+    const filePath = path.join(repoDir, relativePath);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const git = (...args: string[]) =>
+    execFileSync("git", args, { cwd: repoDir, stdio: "pipe" });
+
+  /**
+   * Lists the exported files like an export of baseDir does
+   */
+  const listExported = async (
+    baseDir: string = repoDir,
+    respectGit = false
+  ) => {
+    const ig: IgnoreRules = await fileUtils.getIgnoreRules(
+      baseDir,
+      [],
+      respectGit
+    );
+    const entries = await fileUtils.collectEntries(
+      baseDir,
+      { output: "out.md", depth: Infinity, contents: true },
+      0,
+      baseDir,
+      ig
+    );
+    return entries
+      .filter((entry) => !entry.isDirectory)
+      .map((entry) => entry.relativePath)
+      .sort();
+  };
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-gitignore-"));
+    repoDir = path.join(tempDir, "repo");
+    fs.mkdirSync(repoDir);
+    // Keep the user's own global ignore file out of the tests
+    vi.stubEnv("XDG_CONFIG_HOME", path.join(tempDir, "config"));
+    vi.stubEnv("GIT_CONFIG_GLOBAL", path.join(tempDir, "gitconfig"));
+    git("init", "-q");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("scopes a nested .gitignore to its directory", async () => {
+    write("packages/app/.gitignore", "*.log\n");
+    write("packages/app/debug.log");
+    write("packages/app/index.ts");
+    write("root.log");
+
+    expect(await listExported()).toEqual([
+      "packages/app/.gitignore",
+      "packages/app/index.ts",
+      "root.log",
+    ]);
+  });
+
+  it("lets a nested .gitignore re-include a file ignored by a parent", async () => {
+    write(".gitignore", "*.env\n");
+    write("config/.gitignore", "!example.env\n");
+    write("config/example.env");
+    write("config/secret.env");
+    write("secret.env");
+
+    expect(await listExported()).toEqual([
+      ".gitignore",
+      "config/.gitignore",
+      "config/example.env",
+    ]);
+  });
+
+  it("anchors the patterns of a nested .gitignore to its directory", async () => {
+    write("src/.gitignore", "/generated\n");
+    write("src/generated/types.ts");
+    write("src/lib/generated/keep.ts");
+
+    expect(await listExported()).toEqual([
+      "src/.gitignore",
+      "src/lib/generated/keep.ts",
+    ]);
+  });
+
+  it("applies .git/info/exclude", async () => {
+    fs.writeFileSync(path.join(repoDir, ".git/info/exclude"), "notes.md\n");
+    write("notes.md");
+    write("index.ts");
+
+    expect(await listExported()).toEqual(["index.ts"]);
+  });
+
+  it("applies the user's global excludes file", async () => {
+    const excludesFile = path.join(tempDir, "global-ignore");
+    fs.writeFileSync(excludesFile, ".idea/\n");
+    git("config", "core.excludesFile", excludesFile);
+    write(".idea/workspace.xml");
+    write("index.ts");
+
+    expect(await listExported()).toEqual(["index.ts"]);
+  });
+
+  it("defaults the global excludes file to $XDG_CONFIG_HOME/git/ignore", async () => {
+    fs.mkdirSync(path.join(tempDir, "config/git"), { recursive: true });
+    fs.writeFileSync(path.join(tempDir, "config/git/ignore"), "*.swp\n");
+    write("index.ts.swp");
+    write("index.ts");
+
+    expect(await listExported()).toEqual(["index.ts"]);
+  });
+
+  it("lets a .gitignore override the global excludes", async () => {
+    fs.writeFileSync(path.join(repoDir, ".git/info/exclude"), "*.lock\n");
+    write(".gitignore", "!pnpm-lock.lock\n");
+    write("pnpm-lock.lock");
+    write("other.lock");
+
+    expect(await listExported()).toEqual([".gitignore", "pnpm-lock.lock"]);
+  });
+
+  it("applies the .gitignore files above a subdirectory export", async () => {
+    write(".gitignore", "dist/\n*.log\n");
+    write("packages/app/dist/index.js");
+    write("packages/app/error.log");
+    write("packages/app/index.ts");
+
+    expect(await listExported(path.join(repoDir, "packages/app"))).toEqual([
+      "index.ts",
+    ]);
+  });
+
+  it("reads the .gitignore at the root outside a git repository", async () => {
+    fs.rmSync(path.join(repoDir, ".git"), { recursive: true });
+    write(".gitignore", "*.log\n");
+    write("sub/.gitignore", "*.tmp\n");
+    write("sub/a.tmp");
+    write("sub/a.log");
+    write("sub/a.ts");
+
+    expect(await listExported()).toEqual([
+      ".gitignore",
+      "sub/.gitignore",
+      "sub/a.ts",
+    ]);
+  });
+
+  describe("with respectGit", () => {
+    it("only exports the files listed by git ls-files", async () => {
+      write(".gitignore", "*.log\n");
+      write("tracked.ts");
+      write("untracked.ts");
+      write("ignored.log");
+      write("src/lib/util.ts");
+      git("add", "tracked.ts", ".gitignore");
+
+      expect(await listExported(repoDir, true)).toEqual([
+        ".gitignore",
+        "src/lib/util.ts",
+        "tracked.ts",
+        "untracked.ts",
+      ]);
+    });
+
+    it("keeps the default ignores and .zhankaiignore", async () => {
+      write(".zhankaiignore", "fixtures/\n");
+      write("fixtures/data.json");
+      write("index.ts");
+
+      expect(await listExported(repoDir, true)).toEqual([
+        ".zhankaiignore",
+        "index.ts",
+      ]);
+    });
+
+    it("lists paths relative to a subdirectory export", async () => {
+      write("packages/app/index.ts");
+      write("packages/lib/index.ts");
+
+      expect(
+        await listExported(path.join(repoDir, "packages/app"), true)
+      ).toEqual(["index.ts"]);
+    });
+
+    it("fails outside a git repository", async () => {
+      fs.rmSync(path.join(repoDir, ".git"), { recursive: true });
+
+      await expect(fileUtils.getIgnoreRules(repoDir, [], true)).rejects.toThrow(
+        "--respect-git needs a git repository"
+      );
+    });
+  });
+});
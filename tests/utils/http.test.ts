@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import http from "http";
+import { AddressInfo } from "net";
+import { httpUtils } from "../../src/utils/http";
+
+/**
+ * Local server answering each request with the next reply, and hanging once
+ * the replies run out
+ */
+const startServer = async (
+  replies: { status: number; headers?: Record<string, string> }[]
+) => {
+  const requests: http.IncomingHttpHeaders[] = [];
+  const server = http.createServer((req, res) => {
+    requests.push(req.headers);
+    const reply = replies[requests.length - 1];
+    if (!reply) return;
+
+    res.writeHead(reply.status, reply.headers);
+    res.end(`reply ${requests.length}`);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return { server, url, requests };
+};
+
+describe("httpUtils", () => {
+  const options = {
+    maxAttempts: 3,
+    retryDelay: 10,
+    maxRetryDelay: 100,
+    deadline: 5000,
+  };
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    server = undefined;
+  });
+
+  afterEach(() => {
+    server?.closeAllConnections();
+    server?.close();
+  });
+
+  describe("request", () => {
+    it("should retry server errors with the same idempotency key", async () => {
+      const mock = await startServer([
+        { status: 503 },
+        { status: 500 },
+        { status: 200 },
+      ]);
+      server = mock.server;
+      const onRetry = vi.fn();
+
+      const response = await httpUtils.request(
+        mock.url,
+        { method: "POST", headers: { accept: "text/plain" } },
+        { ...options, idempotencyKey: "key-1", onRetry }
+      );
+
+      expect(await response.text()).toBe("reply 3");
+      expect(
+        mock.requests.map((headers) => headers["idempotency-key"])
+      ).toEqual(["key-1", "key-1", "key-1"]);
+      expect(mock.requests[0].accept).toBe("text/plain");
+      expect(onRetry.mock.calls.map(([retry]) => retry.attempt)).toEqual([
+        2, 3,
+      ]);
+
+      // Exponential backoff, with at least half of each delay kept by jitter
+      const [first, second] = onRetry.mock.calls.map(([retry]) => retry.delay);
+      expect(first).toBeGreaterThanOrEqual(5);
+      expect(first).toBeLessThanOrEqual(10);
+      expect(second).toBeGreaterThanOrEqual(10);
+      expect(second).toBeLessThanOrEqual(20);
+    });
+
+    it("should wait for the delay given by Retry-After", async () => {
+      const mock = await startServer([
+        { status: 429, headers: { "retry-after": "0" } },
+        { status: 200 },
+      ]);
+      server = mock.server;
+      const onRetry = vi.fn();
+
+      const response = await httpUtils.request(
+        mock.url,
+        {},
+        { ...options, retryDelay: 60000, maxRetryDelay: 60000, onRetry }
+      );
+
+      expect(response.status).toBe(200);
+      expect(onRetry).toHaveBeenCalledWith({
+        attempt: 2,
+        delay: 0,
+        reason: "status 429",
+      });
+    });
+
+    it("should return errors that are not worth retrying", async () => {
+      const mock = await startServer([{ status: 400 }, { status: 200 }]);
+      server = mock.server;
+
+      const response = await httpUtils.request(mock.url, {}, options);
+
+      expect(response.status).toBe(400);
+      expect(mock.requests).toHaveLength(1);
+    });
+
+    it("should return the last response once the attempts run out", async () => {
+      const mock = await startServer([{ status: 502 }, { status: 502 }]);
+      server = mock.server;
+
+      const response = await httpUtils.request(
+        mock.url,
+        {},
+        { ...options, maxAttempts: 2 }
+      );
+
+      expect(response.status).toBe(502);
+      expect(mock.requests).toHaveLength(2);
+    });
+
+    it("should not retry past the deadline", async () => {
+      const mock = await startServer([]);
+      server = mock.server;
+
+      await expect(
+        httpUtils.request(mock.url, {}, { ...options, deadline: 200 })
+      ).rejects.toThrow("Request timed out after 0.2 seconds");
+      expect(mock.requests).toHaveLength(1);
+    });
+
+    it("should give up on network errors", async () => {
+      const mock = await startServer([]);
+      mock.server.close();
+
+      await expect(
+        httpUtils.request(mock.url, {}, { ...options, maxAttempts: 2 })
+      ).rejects.toThrow(/Request failed after 2 attempt\(s\)/);
+    });
+
+    it("should stop when the signal aborts", async () => {
+      const mock = await startServer([]);
+      server = mock.server;
+      const controller = new AbortController();
+      const cancelled = new Error("Query cancelled");
+
+      setTimeout(() => controller.abort(cancelled), 50);
+
+      await expect(
+        httpUtils.request(
+          mock.url,
+          {},
+          { ...options, signal: controller.signal }
+        )
+      ).rejects.toBe(cancelled);
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should read seconds and HTTP dates", () => {
+      const now = Date.parse("2025-01-01T00:00:00Z");
+
+      expect(httpUtils.parseRetryAfter("120", now)).toBe(120000);
+      expect(
+        httpUtils.parseRetryAfter("Wed, 01 Jan 2025 00:00:30 GMT", now)
+      ).toBe(30000);
+      expect(
+        httpUtils.parseRetryAfter("Tue, 31 Dec 2024 00:00:00 GMT", now)
+      ).toBe(0);
+      expect(httpUtils.parseRetryAfter("soon", now)).toBeNull();
+      expect(httpUtils.parseRetryAfter(null, now)).toBeNull();
+    });
+  });
+});
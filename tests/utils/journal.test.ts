@@ -0,0 +1,202 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import crypto from "crypto";
+import os from "os";
+import path from "path";
+import { journalUtils } from "../../src/utils/journal";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const hash = (content: string): string =>
+  crypto.createHash("sha256").update(content).digest("hex");
+
+describe("journalUtils", () => {
+  let repoDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-journal-"));
+    vi.spyOn(process, "cwd").mockReturnValue(repoDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  describe("createQueryId", () => {
+    it("should start with a sortable timestamp", () => {
+      expect(journalUtils.createQueryId()).toMatch(/^\d{14}-[0-9a-f]{4}$/);
+    });
+  });
+
+  describe("recordChanges", () => {
+    it("should append entries to an existing journal", async () => {
+      const entry = {
+        fileName: "a.txt",
+        created: true,
+        originalContent: null,
+        newContent: "a",
+        createdDirs: [],
+      };
+
+      await journalUtils.recordChanges("q1", [entry], "first");
+      await journalUtils.recordChanges("q1", [{ ...entry, fileName: "b.txt" }]);
+
+      const journal = await journalUtils.getJournal("q1");
+      expect(journal?.query).toBe("first");
+      expect(journal?.entries.map((e) => e.fileName)).toEqual([
+        "a.txt",
+        "b.txt",
+      ]);
+    });
+  });
+
+  describe("undo", () => {
+    it("should restore modified files and delete created ones", async () => {
+      fs.writeFileSync(path.join(repoDir, "existing.txt"), "new");
+      fs.mkdirSync(path.join(repoDir, "nested/dir"), { recursive: true });
+      fs.writeFileSync(path.join(repoDir, "nested/dir/created.txt"), "created");
+
+      await journalUtils.recordChanges("q1", [
+        {
+          fileName: "existing.txt",
+          created: false,
+          originalContent: "old",
+          newContent: "new",
+          createdDirs: [],
+        },
+        {
+          fileName: "nested/dir/created.txt",
+          created: true,
+          originalContent: null,
+          newContent: "created",
+          createdDirs: ["nested", "nested/dir"],
+        },
+      ]);
+
+      const journal = await journalUtils.undo("q1");
+
+      expect(journal?.undoneAt).toBeDefined();
+      expect(fs.readFileSync(path.join(repoDir, "existing.txt"), "utf8")).toBe(
+        "old"
+      );
+      expect(fs.existsSync(path.join(repoDir, "nested"))).toBe(false);
+    });
+
+    it("should restore deleted files and rename files back", async () => {
+      fs.mkdirSync(path.join(repoDir, "src"));
+      fs.writeFileSync(path.join(repoDir, "src/moved.txt"), "edited");
+
+      await journalUtils.recordChanges("q1", [
+        {
+          fileName: "deleted.txt",
+          created: false,
+          originalContent: "deleted",
+          newContent: "",
+          createdDirs: [],
+          deleted: true,
+        },
+        {
+          fileName: "src/moved.txt",
+          created: false,
+          originalContent: "moved",
+          newContent: "edited",
+          createdDirs: ["src"],
+          renamedFrom: "moved.txt",
+        },
+      ]);
+
+      await journalUtils.undo("q1");
+
+      expect(fs.readFileSync(path.join(repoDir, "deleted.txt"), "utf8")).toBe(
+        "deleted"
+      );
+      expect(fs.readFileSync(path.join(repoDir, "moved.txt"), "utf8")).toBe(
+        "moved"
+      );
+      expect(fs.existsSync(path.join(repoDir, "src"))).toBe(false);
+    });
+
+    it("should restore binary files byte for byte", async () => {
+      const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0xff, 0xfe, 0x00]);
+      fs.writeFileSync(path.join(repoDir, "logo.png"), "text");
+
+      await journalUtils.recordChanges("q1", [
+        {
+          fileName: "logo.png",
+          created: false,
+          originalContent: bytes.toString("base64"),
+          encoding: "base64",
+          newContent: "text",
+          newHash: hash("text"),
+          createdDirs: [],
+        },
+      ]);
+
+      await journalUtils.undo("q1");
+
+      expect(fs.readFileSync(path.join(repoDir, "logo.png"))).toEqual(bytes);
+    });
+
+    it("should refuse to restore files changed since the query", async () => {
+      fs.writeFileSync(path.join(repoDir, "file.txt"), "edited by hand");
+
+      await journalUtils.recordChanges("q1", [
+        {
+          fileName: "file.txt",
+          created: false,
+          originalContent: Buffer.from("old").toString("base64"),
+          encoding: "base64",
+          newContent: "new",
+          newHash: hash("new"),
+          createdDirs: [],
+        },
+      ]);
+
+      expect(await journalUtils.undo("q1")).toBeNull();
+      expect(fs.readFileSync(path.join(repoDir, "file.txt"), "utf8")).toBe(
+        "edited by hand"
+      );
+
+      expect(await journalUtils.undo("q1", true)).not.toBeNull();
+      expect(fs.readFileSync(path.join(repoDir, "file.txt"), "utf8")).toBe(
+        "old"
+      );
+    });
+
+    it("should default to the latest query not undone yet", async () => {
+      const entry = {
+        fileName: "file.txt",
+        created: true,
+        originalContent: null,
+        newContent: "x",
+        createdDirs: [],
+      };
+
+      fs.writeFileSync(path.join(repoDir, "a.txt"), "x");
+      fs.writeFileSync(path.join(repoDir, "b.txt"), "x");
+
+      await journalUtils.recordChanges("20260101000000-aaaa", [
+        { ...entry, fileName: "a.txt" },
+      ]);
+      await journalUtils.recordChanges("20260102000000-bbbb", [
+        { ...entry, fileName: "b.txt" },
+      ]);
+
+      const first = await journalUtils.undo();
+      const second = await journalUtils.undo();
+      const third = await journalUtils.undo();
+
+      expect(first?.queryId).toBe("20260102000000-bbbb");
+      expect(second?.queryId).toBe("20260101000000-aaaa");
+      expect(third).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { patchUtils } from "../../src/utils/patch";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const source = [
+  "import { a } from './a';",
+  "",
+  "export function one() {",
+  "  return 1;",
+  "}",
+  "",
+  "export function two() {",
+  "  return 2;",
+  "}",
+  "",
+].join("\n");
+
+describe("patchUtils", () => {
+  describe("applyUnifiedDiff", () => {
+    it("should apply hunks at the lines of their headers", () => {
+      const diff = [
+        "--- a/file.ts",
+        "+++ b/file.ts",
+        "@@ -3,3 +3,3 @@",
+        " export function one() {",
+        "-  return 1;",
+        "+  return 10;",
+        " }",
+        "@@ -7,3 +7,4 @@",
+        " export function two() {",
+        "+  // Two",
+        "   return 2;",
+        " }",
+      ].join("\n");
+
+      const result = patchUtils.applyUnifiedDiff(source, diff);
+
+      expect(result.failed).toEqual([]);
+      expect(result.applied).toBe(2);
+      expect(result.content).toBe(
+        source
+          .replace("return 1;", "return 10;")
+          .replace("  return 2;", "  // Two\n  return 2;")
+      );
+    });
+
+    it("should find hunks whose line numbers are wrong or missing", () => {
+      const diff = ["@@ -40,2 +40,2 @@", "-  return 2;", "+  return 20;", " }"]
+        .concat([
+          "@@",
+          " import { a } from './a';",
+          "+import { b } from './b';",
+        ])
+        .join("\n");
+
+      const result = patchUtils.applyUnifiedDiff(source, diff);
+
+      expect(result.failed).toEqual([]);
+      expect(result.content).toContain("  return 20;\n}");
+      expect(result.content).toMatch(/^import \{ a \}.*\nimport \{ b \}/);
+    });
+
+    it("should forgive whitespace and keep the indentation of the file", () => {
+      const diff = [
+        "@@ -3,3 +3,3 @@",
+        "export function one() {",
+        "-return 1;",
+        "+  return 1 + 0;",
+        "}   ",
+      ].join("\n");
+
+      const result = patchUtils.applyUnifiedDiff(source, diff);
+
+      expect(result.failed).toEqual([]);
+      expect(result.content).toContain(
+        "export function one() {\n  return 1 + 0;\n}\n"
+      );
+    });
+
+    it("should drop context lines that no longer match", () => {
+      const diff = [
+        "@@ -6,4 +6,4 @@",
+        " // a comment that is not in the file",
+        " export function two() {",
+        "-  return 2;",
+        "+  return 22;",
+      ].join("\n");
+
+      const result = patchUtils.applyUnifiedDiff(source, diff);
+
+      expect(result.failed).toEqual([]);
+      expect(result.content).toContain("  return 22;");
+    });
+
+    it("should report the hunks that fail and apply the others", () => {
+      const diff = [
+        "@@ -4,1 +4,1 @@",
+        "-  return 1;",
+        "+  return 100;",
+        "@@ -20,1 +20,1 @@",
+        "-  return 3;",
+        "+  return 30;",
+      ].join("\n");
+
+      const result = patchUtils.applyUnifiedDiff(source, diff);
+
+      expect(result.applied).toBe(1);
+      expect(result.failed).toEqual([
+        { index: 2, reason: "its context was not found in the file" },
+      ]);
+      expect(result.content).toContain("return 100;");
+    });
+
+    it("should create a file from an empty one", () => {
+      const diff = "--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+a\n+b\n";
+
+      expect(patchUtils.applyUnifiedDiff("", diff).content).toBe("a\nb\n");
+    });
+
+    it("should reject a diff without hunks", () => {
+      expect(patchUtils.applyUnifiedDiff(source, "+ nothing").failed).toEqual([
+        { index: 1, reason: "the diff has no @@ hunk" },
+      ]);
+    });
+  });
+
+  describe("applySearchReplace", () => {
+    it("should replace blocks found once", () => {
+      const result = patchUtils.applySearchReplace(source, [
+        { search: "  return 1;", replace: "  return 1.5;" },
+        {
+          search: "export function two() {\n  return 2;\n}",
+          replace: "export const two = () => 2;",
+        },
+      ]);
+
+      expect(result.failed).toEqual([]);
+      expect(result.content).toContain("  return 1.5;");
+      expect(result.content).toContain("export const two = () => 2;\n");
+    });
+
+    it("should match lines whatever their whitespace", () => {
+      const result = patchUtils.applySearchReplace(source, [
+        { search: "return 2;  \n}", replace: "  return 2 * 1;\n}" },
+      ]);
+
+      expect(result.failed).toEqual([]);
+      expect(result.content).toContain("  return 2 * 1;\n}\n");
+    });
+
+    it("should refuse ambiguous and missing blocks", () => {
+      const result = patchUtils.applySearchReplace(source, [
+        { search: "}", replace: "};" },
+        { search: "return 3;", replace: "return 4;" },
+        { search: "return 1;", replace: "return 0;" },
+      ]);
+
+      expect(result.failed).toEqual([
+        { index: 1, reason: "its search block matches several places" },
+        { index: 2, reason: "its search block was not found in the file" },
+      ]);
+      expect(result.applied).toBe(1);
+      expect(result.content).toContain("return 0;");
+    });
+  });
+
+  describe("resolveFileChange", () => {
+    it("should write full contents as given", () => {
+      expect(
+        patchUtils.resolveFileChange(
+          { fileName: "a.ts", fileContent: "new" },
+          "old"
+        )
+      ).toEqual({
+        fileSpec: { fileName: "a.ts", fileContent: "new" },
+        failed: [],
+      });
+    });
+
+    it("should fall back to the full content when a patch fails", () => {
+      const result = patchUtils.resolveFileChange(
+        {
+          fileName: "a.ts",
+          edits: [{ search: "missing", replace: "x" }],
+          fileContent: "full",
+        },
+        "old"
+      );
+
+      expect(result.fileSpec).toEqual({
+        fileName: "a.ts",
+        fileContent: "full",
+      });
+      expect(result.failed).toHaveLength(1);
+    });
+
+    it("should drop a file none of whose patch applies", () => {
+      const result = patchUtils.resolveFileChange(
+        { fileName: "a.ts", edits: [{ search: "missing", replace: "x" }] },
+        "old"
+      );
+
+      expect(result.fileSpec).toBeNull();
+      expect(result.failed).toHaveLength(1);
+    });
+
+    it("should drop a file only part of whose patch applies", () => {
+      const result = patchUtils.resolveFileChange(
+        {
+          fileName: "a.ts",
+          edits: [
+            { search: "old", replace: "new" },
+            { search: "missing", replace: "x" },
+          ],
+        },
+        "old"
+      );
+
+      expect(result.fileSpec).toBeNull();
+      expect(result.failed).toEqual([
+        { index: 2, reason: "its search block was not found in the file" },
+      ]);
+    });
+  });
+
+  describe("resolveFileChanges", () => {
+    let repoDir: string;
+
+    beforeEach(() => {
+      repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-patch-"));
+      vi.spyOn(process, "cwd").mockReturnValue(repoDir);
+      fs.writeFileSync(path.join(repoDir, "file.ts"), source);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      fs.rmSync(repoDir, { recursive: true, force: true });
+    });
+
+    it("should patch the files of the working tree", async () => {
+      const { fileSpecs, failed } = await patchUtils.resolveFileChanges([
+        {
+          fileName: "file.ts",
+          edits: [{ search: "return 2;", replace: "return 3;" }],
+        },
+        { fileName: "new.ts", diff: "@@ -0,0 +1 @@\n+export {};\n" },
+      ]);
+
+      expect(failed).toEqual([]);
+      expect(fileSpecs).toEqual([
+        { fileName: "file.ts", fileContent: source.replace("2;", "3;") },
+        { fileName: "new.ts", fileContent: "export {};\n" },
+      ]);
+    });
+
+    it("should refuse to create existing files and modify missing ones", async () => {
+      const { fileSpecs, failed } = await patchUtils.resolveFileChanges([
+        { fileName: "file.ts", operation: "create", fileContent: "new" },
+        { fileName: "missing.ts", operation: "modify", fileContent: "new" },
+        { fileName: "added.ts", operation: "create", fileContent: "added" },
+      ]);
+
+      expect(fileSpecs).toEqual([
+        { fileName: "added.ts", fileContent: "added" },
+      ]);
+      expect(failed).toEqual([
+        {
+          fileName: "file.ts",
+          index: 0,
+          reason: "it cannot be created, it already exists",
+        },
+        {
+          fileName: "missing.ts",
+          index: 0,
+          reason: "it cannot be modified, it does not exist",
+        },
+      ]);
+    });
+
+    it("should not rename a file whose patch does not fully apply", async () => {
+      const { fileSpecs, failed } = await patchUtils.resolveFileChanges([
+        {
+          fileName: "file.ts",
+          operation: "rename",
+          newFileName: "moved.ts",
+          edits: [{ search: "nope", replace: "x" }],
+        },
+      ]);
+
+      expect(fileSpecs).toEqual([]);
+      expect(failed).toHaveLength(1);
+    });
+
+    it("should report failures with their file", async () => {
+      const { fileSpecs, failed } = await patchUtils.resolveFileChanges([
+        { fileName: "file.ts", edits: [{ search: "nope", replace: "x" }] },
+      ]);
+
+      expect(fileSpecs).toEqual([]);
+      expect(failed).toEqual([
+        {
+          fileName: "file.ts",
+          index: 1,
+          reason: "its search block was not found in the file",
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { pathPolicyUtils } from "../../src/utils/path-policy";
+
+describe("pathPolicyUtils", () => {
+  let repoDir: string;
+  let outsideDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-repo-"));
+    outsideDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-outside-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true });
+    fs.rmSync(outsideDir, { recursive: true, force: true });
+  });
+
+  describe("checkPath", () => {
+    it("should allow regular paths inside the repository", () => {
+      const result = pathPolicyUtils.checkPath("src/new/file.ts", repoDir);
+
+      expect(result.allowed).toBe(true);
+      expect(result.filePath).toBe(path.join(repoDir, "src/new/file.ts"));
+    });
+
+    it("should reject traversal outside the repository", () => {
+      expect(pathPolicyUtils.checkPath("../../.bashrc", repoDir)).toEqual({
+        allowed: false,
+        reason: "path escapes the repository root",
+      });
+      expect(
+        pathPolicyUtils.checkPath("src/../../escape.txt", repoDir).allowed
+      ).toBe(false);
+    });
+
+    it("should allow names that only start with two dots", () => {
+      expect(pathPolicyUtils.checkPath("..foo/bar.txt", repoDir).allowed).toBe(
+        true
+      );
+      expect(pathPolicyUtils.checkPath("..foo", repoDir).allowed).toBe(true);
+    });
+
+    it("should reject absolute paths", () => {
+      expect(pathPolicyUtils.checkPath("/etc/passwd", repoDir).allowed).toBe(
+        false
+      );
+      expect(
+        pathPolicyUtils.checkPath("C:\\Windows\\win.ini", repoDir).allowed
+      ).toBe(false);
+    });
+
+    it("should reject writes into protected directories", () => {
+      expect(pathPolicyUtils.checkPath(".git/config", repoDir).reason).toBe(
+        "writing into .git is not allowed"
+      );
+      expect(
+        pathPolicyUtils.checkPath("packages/a/node_modules/x.js", repoDir)
+          .allowed
+      ).toBe(false);
+    });
+
+    it("should reject protected directories in any case", () => {
+      expect(pathPolicyUtils.checkPath(".GIT/config", repoDir).reason).toBe(
+        "writing into .git is not allowed"
+      );
+      expect(
+        pathPolicyUtils.checkPath("Node_Modules/x.js", repoDir).allowed
+      ).toBe(false);
+    });
+
+    it("should reject symlinks pointing outside the repository", () => {
+      fs.symlinkSync(outsideDir, path.join(repoDir, "link"));
+
+      expect(pathPolicyUtils.checkPath("link/file.txt", repoDir).reason).toBe(
+        "path goes through a symlink pointing outside the repository"
+      );
+    });
+
+    it("should reject writes into the credentials directory", () => {
+      const previousHome = process.env.HOME;
+      process.env.HOME = repoDir;
+
+      try {
+        expect(
+          pathPolicyUtils.checkPath(".zhankai/wallet.json", repoDir).allowed
+        ).toBe(false);
+      } finally {
+        process.env.HOME = previousHome;
+      }
+    });
+  });
+
+  describe("filterFileUpdates", () => {
+    it("should split allowed and rejected file updates", () => {
+      const { allowed, rejected } = pathPolicyUtils.filterFileUpdates(
+        [
+          { fileName: "ok.ts", fileContent: "" },
+          { fileName: "../nope.ts", fileContent: "" },
+        ],
+        repoDir
+      );
+
+      expect(allowed.map((f) => f.fileName)).toEqual(["ok.ts"]);
+      expect(rejected).toEqual([
+        { fileName: "../nope.ts", reason: "path escapes the repository root" },
+      ]);
+    });
+
+    it("should check the new path of renamed files", () => {
+      const { allowed, rejected } = pathPolicyUtils.filterFileUpdates(
+        [
+          {
+            fileName: "a.ts",
+            fileContent: "",
+            operation: "rename",
+            newFileName: "src/a.ts",
+          },
+          {
+            fileName: "b.ts",
+            fileContent: "",
+            operation: "rename",
+            newFileName: ".git/b.ts",
+          },
+        ],
+        repoDir
+      );
+
+      expect(allowed.map((f) => f.fileName)).toEqual(["a.ts"]);
+      expect(rejected).toEqual([
+        { fileName: ".git/b.ts", reason: "writing into .git is not allowed" },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { proposalUtils } from "../../src/utils/proposal";
+import { apiUtils } from "../../src/utils/api";
+import { journalUtils } from "../../src/utils/journal";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("proposalUtils", () => {
+  let repoDir: string;
+
+  const read = (relativePath: string) =>
+    fs.readFileSync(path.join(repoDir, relativePath), "utf8");
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-proposal-"));
+    vi.spyOn(process, "cwd").mockReturnValue(repoDir);
+    fs.writeFileSync(path.join(repoDir, "existing.ts"), "a\nb\nc\n");
+    fs.writeFileSync(path.join(repoDir, "same.ts"), "same\n");
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  const fileSpecs = [
+    { fileName: "existing.ts", fileContent: "a\nB\nc\nd\n" },
+    { fileName: "src/new.ts", fileContent: "export {};\n" },
+    { fileName: "same.ts", fileContent: "same\n" },
+  ];
+
+  describe("saveProposal", () => {
+    it("should describe the changes without touching the working tree", async () => {
+      const proposal = await proposalUtils.saveProposal(
+        "q1",
+        fileSpecs,
+        "Refactor"
+      );
+
+      expect(proposal.files).toMatchObject([
+        { fileName: "existing.ts", change: "modified", added: 2, removed: 1 },
+        { fileName: "src/new.ts", change: "created", added: 1, removed: 0 },
+        { fileName: "same.ts", change: "unchanged", added: 0, removed: 0 },
+      ]);
+      expect(read("existing.ts")).toBe("a\nb\nc\n");
+      expect(fs.existsSync(path.join(repoDir, "src"))).toBe(false);
+      expect(read("zhankai/proposals/q1/files/src/new.ts")).toBe(
+        "export {};\n"
+      );
+    });
+
+    it("should be read back with its proposed contents", async () => {
+      await proposalUtils.saveProposal("q1", fileSpecs, "Refactor", "Done");
+
+      const proposal = await proposalUtils.getProposal("q1");
+      expect(proposal).toMatchObject({ query: "Refactor", summary: "Done" });
+      expect(await proposalUtils.getFileUpdates(proposal!)).toEqual(fileSpecs);
+    });
+  });
+
+  describe("deletions and renames", () => {
+    const operations = [
+      { fileName: "same.ts", fileContent: "", operation: "delete" as const },
+      {
+        fileName: "existing.ts",
+        fileContent: "a\nb\nc\n",
+        operation: "rename" as const,
+        newFileName: "src/moved.ts",
+      },
+    ];
+
+    it("should be saved and read back", async () => {
+      const proposal = await proposalUtils.saveProposal("q1", operations);
+
+      expect(proposal.files).toMatchObject([
+        { fileName: "same.ts", change: "deleted", added: 0, removed: 1 },
+        {
+          fileName: "existing.ts",
+          change: "renamed",
+          newFileName: "src/moved.ts",
+        },
+      ]);
+      expect(await proposalUtils.getFileUpdates(proposal)).toEqual(operations);
+    });
+
+    it("should be applied, journaled and undone", async () => {
+      await apiUtils.applyFileUpdates(operations, {
+        autoApprove: true,
+        queryId: "q1",
+      });
+
+      expect(fs.existsSync(path.join(repoDir, "same.ts"))).toBe(false);
+      expect(fs.existsSync(path.join(repoDir, "existing.ts"))).toBe(false);
+      expect(read("src/moved.ts")).toBe("a\nb\nc\n");
+      expect((await journalUtils.getJournal("q1"))?.entries).toMatchObject([
+        {
+          fileName: "same.ts",
+          deleted: true,
+          originalContent: Buffer.from("same\n").toString("base64"),
+          encoding: "base64",
+        },
+        {
+          fileName: "src/moved.ts",
+          renamedFrom: "existing.ts",
+          createdDirs: ["src"],
+        },
+      ]);
+
+      await journalUtils.undo("q1");
+
+      expect(read("same.ts")).toBe("same\n");
+      expect(read("existing.ts")).toBe("a\nb\nc\n");
+      expect(fs.existsSync(path.join(repoDir, "src"))).toBe(false);
+    });
+  });
+
+  describe("applying again", () => {
+    it("should be undone after an earlier apply was undone", async () => {
+      const apply = () =>
+        apiUtils.applyFileUpdates(fileSpecs, {
+          autoApprove: true,
+          queryId: "q1",
+        });
+
+      await apply();
+      expect(await journalUtils.undo()).not.toBeNull();
+      expect(read("existing.ts")).toBe("a\nb\nc\n");
+
+      await apply();
+      expect(read("existing.ts")).toBe("a\nB\nc\nd\n");
+
+      const journal = await journalUtils.undo();
+      expect(journal?.queryId).toBe("q1");
+      expect(journal?.entries).toHaveLength(fileSpecs.length);
+      expect(read("existing.ts")).toBe("a\nb\nc\n");
+      expect(fs.existsSync(path.join(repoDir, "src"))).toBe(false);
+    });
+  });
+
+  describe("listProposals", () => {
+    it("should list the most recent proposal first", async () => {
+      await proposalUtils.saveProposal("20250101000000-aaaa", fileSpecs);
+      await proposalUtils.saveProposal("20250102000000-bbbb", fileSpecs);
+
+      expect(
+        (await proposalUtils.listProposals()).map((proposal) => proposal.id)
+      ).toEqual(["20250102000000-bbbb", "20250101000000-aaaa"]);
+    });
+  });
+
+  describe("getChangedFiles", () => {
+    it("should list the files changed since the proposal", async () => {
+      const proposal = await proposalUtils.saveProposal("q1", fileSpecs);
+
+      fs.writeFileSync(path.join(repoDir, "existing.ts"), "edited\n");
+      fs.mkdirSync(path.join(repoDir, "src"));
+      fs.writeFileSync(path.join(repoDir, "src/new.ts"), "");
+
+      expect(await proposalUtils.getChangedFiles(proposal)).toEqual([
+        "existing.ts",
+        "src/new.ts",
+      ]);
+    });
+  });
+
+  describe("dry run", () => {
+    it("should save proposed file updates instead of writing them", async () => {
+      await apiUtils.processResponseForFileUpdates(
+        {
+          filesToUpdate: [
+            ...fileSpecs,
+            { fileName: "../outside.ts", fileContent: "x" },
+          ],
+        },
+        { dryRun: true, queryId: "q1", query: "Refactor" }
+      );
+
+      const proposal = await proposalUtils.getProposal("q1");
+      expect(proposal?.files.map((file) => file.fileName)).toEqual([
+        "existing.ts",
+        "src/new.ts",
+        "same.ts",
+      ]);
+      expect(read("existing.ts")).toBe("a\nb\nc\n");
+      expect(await journalUtils.getJournal("q1")).toBeNull();
+    });
+
+    it("should save the result of patches", async () => {
+      await apiUtils.processResponseForFileUpdates(
+        {
+          filesToUpdate: [
+            { fileName: "existing.ts", diff: "@@ -2 +2 @@\n-b\n+B\n" },
+          ],
+        },
+        { dryRun: true, queryId: "q1" }
+      );
+
+      const proposal = await proposalUtils.getProposal("q1");
+      expect(await proposalUtils.getFileUpdates(proposal!)).toEqual([
+        { fileName: "existing.ts", fileContent: "a\nB\nc\n" },
+      ]);
+    });
+
+    it("should apply a saved proposal under its id", async () => {
+      const proposal = await proposalUtils.saveProposal(
+        "q1",
+        fileSpecs,
+        "Refactor"
+      );
+
+      await apiUtils.applyFileUpdates(
+        await proposalUtils.getFileUpdates(proposal),
+        { autoApprove: true, queryId: proposal.id, query: proposal.query }
+      );
+
+      expect(read("existing.ts")).toBe("a\nB\nc\nd\n");
+      expect(read("src/new.ts")).toBe("export {};\n");
+      expect(
+        (await journalUtils.getJournal("q1"))?.entries.map(
+          (entry) => entry.fileName
+        )
+      ).toEqual(["existing.ts", "src/new.ts", "same.ts"]);
+    });
+  });
+});
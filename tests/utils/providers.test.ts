@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { providerUtils } from "../../src/utils/providers";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+/**
+ * Mocks fetch to answer with the given JSON body
+ */
+const mockFetchReply = (body: unknown, status: number = 200) => {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: status >= 200 && status < 300,
+    status,
+    text: vi.fn().mockResolvedValue(JSON.stringify(body)),
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+/**
+ * Mocks fetch to stream the given chunks
+ */
+const mockFetchStream = (chunks: string[], contentType: string) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  const fetchMock = vi
+    .fn()
+    .mockResolvedValue(
+      new Response(body, { headers: { "content-type": contentType } })
+    );
+  vi.stubGlobal("fetch", fetchMock);
+  return fetchMock;
+};
+
+describe("providerUtils", () => {
+  const request = { query: "Add tests", context: "# repo", timeout: 1000 };
+
+  beforeEach(() => {
+    vi.stubEnv("OPENAI_API_KEY", "sk-test");
+    vi.stubEnv("ANTHROPIC_API_KEY", "ant-test");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  describe("sendQuery", () => {
+    it("should call an OpenAI-compatible endpoint", async () => {
+      const fetchMock = mockFetchReply({
+        choices: [{ message: { content: "plain answer" } }],
+      });
+
+      const data = await providerUtils.sendQuery("openai", request);
+
+      expect(data).toEqual({ output: "plain answer" });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://api.openai.com/v1/chat/completions");
+      expect(init.headers.authorization).toBe("Bearer sk-test");
+      const body = JSON.parse(init.body);
+      expect(body.messages[1].content).toContain("# repo");
+      expect(body.messages[1].content).toContain("Add tests");
+    });
+
+    it("should normalize Anthropic replies", async () => {
+      const reply = {
+        output: "Done",
+        filesToUpdate: [{ fileName: "a.ts", fileContent: "x" }],
+      };
+      const fetchMock = mockFetchReply({
+        content: [{ type: "text", text: JSON.stringify(reply) }],
+      });
+
+      const data = await providerUtils.sendQuery("anthropic", request);
+
+      expect(data).toEqual(reply);
+      expect(fetchMock.mock.calls[0][1].headers["x-api-key"]).toBe("ant-test");
+    });
+
+    it("should use the provider URL and model overrides", async () => {
+      const fetchMock = mockFetchReply({ message: { content: "hi" } });
+
+      await providerUtils.sendQuery("ollama", {
+        ...request,
+        url: "http://gpu-box:11434/api/chat",
+        model: "qwen2.5-coder",
+      });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://gpu-box:11434/api/chat");
+      expect(JSON.parse(init.body).model).toBe("qwen2.5-coder");
+    });
+
+    it("should fail on unknown providers and missing keys", async () => {
+      vi.stubEnv("OPENAI_API_KEY", "");
+
+      await expect(providerUtils.sendQuery("nope", request)).rejects.toThrow(
+        'Unknown provider "nope"'
+      );
+      await expect(providerUtils.sendQuery("openai", request)).rejects.toThrow(
+        "OPENAI_API_KEY"
+      );
+    });
+
+    it("should report HTTP errors", async () => {
+      mockFetchReply({ error: "bad request" }, 400);
+
+      await expect(providerUtils.sendQuery("openai", request)).rejects.toThrow(
+        "openai request failed with status 400"
+      );
+    });
+  });
+
+  describe("streaming", () => {
+    it("should pass the output of streamed JSON answers as it arrives", async () => {
+      const reply =
+        '{"output": "# Plan\\nAdd \\"tests\\"", "filesToUpdate": [{"fileName": "a.ts", "fileContent": "x"}]}';
+      const fetchMock = mockFetchStream(
+        [
+          ...[reply.slice(0, 15), reply.slice(15, 30), reply.slice(30)].map(
+            (content) =>
+              `data: ${JSON.stringify({
+                choices: [{ delta: { content } }],
+              })}\n\n`
+          ),
+          "data: [DONE]\n\n",
+        ],
+        "text/event-stream"
+      );
+      const onText = vi.fn();
+
+      const data = await providerUtils.sendQuery("openai", {
+        ...request,
+        onText,
+      });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).stream).toBe(true);
+      expect(onText.mock.calls.map(([text]) => text).join("")).toBe(
+        '# Plan\nAdd "tests"'
+      );
+      expect(data).toEqual({
+        output: '# Plan\nAdd "tests"',
+        filesToUpdate: [{ fileName: "a.ts", fileContent: "x" }],
+      });
+    });
+
+    it("should stream plain text answers from JSON lines", async () => {
+      mockFetchStream(
+        [
+          '{"message":{"content":"Just "},"done":false}\n',
+          '{"message":{"content":"text"},"done":true}\n',
+        ],
+        "application/x-ndjson"
+      );
+      const onText = vi.fn();
+
+      const data = await providerUtils.sendQuery("ollama", {
+        ...request,
+        onText,
+      });
+
+      expect(onText.mock.calls).toEqual([["Just "], ["text"]]);
+      expect(data).toEqual({ output: "Just text" });
+    });
+
+    it("should report errors sent in the stream", async () => {
+      mockFetchStream(
+        [
+          'event: error\ndata: {"type":"error","error":{"message":"Overloaded"}}\n\n',
+        ],
+        "text/event-stream"
+      );
+
+      await expect(
+        providerUtils.sendQuery("anthropic", { ...request, onText: vi.fn() })
+      ).rejects.toThrow("anthropic stream failed: Overloaded");
+    });
+  });
+
+  describe("normalizeReply", () => {
+    it("should parse JSON wrapped in a fenced block", () => {
+      const text =
+        '```json\n{"output":"ok","filesToUpdate":[{"fileName":"a","fileContent":"b"}]}\n```';
+
+      expect(providerUtils.normalizeReply(text)).toEqual({
+        output: "ok",
+        filesToUpdate: [{ fileName: "a", fileContent: "b" }],
+      });
+    });
+
+    it("should keep plain text answers as output", () => {
+      expect(providerUtils.normalizeReply("Just text")).toEqual({
+        output: "Just text",
+      });
+    });
+  });
+});
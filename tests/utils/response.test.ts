@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import { responseUtils } from "../../src/utils/response";
+
+describe("responseUtils", () => {
+  describe("parseFileChanges", () => {
+    it("should accept file changes following the schema", () => {
+      const filesToUpdate = [
+        { fileName: "a.ts", fileContent: "", rationale: "Empty module" },
+        { fileName: "b.ts", operation: "modify", diff: "@@\n-a\n+b" },
+        {
+          fileName: "c.ts",
+          edits: [{ search: "x", replace: "y" }],
+        },
+        { fileName: "d.ts", operation: "delete" },
+        { fileName: "e.ts", operation: "rename", newFileName: "f.ts" },
+      ];
+
+      expect(
+        responseUtils.parseFileChanges({
+          schemaVersion: 1,
+          filesToUpdate,
+        } as any)
+      ).toEqual({ fileSpecs: filesToUpdate, issues: [] });
+    });
+
+    it("should report each invalid entry and keep the valid ones", () => {
+      const { fileSpecs, issues } = responseUtils.parseFileChanges({
+        filesToUpdate: [
+          { fileName: "ok.ts", fileContent: "ok" },
+          { fileContent: "x" },
+          { fileName: "a.ts", fileContent: 42 },
+          { fileName: "b.ts" },
+          { fileName: "c.ts", operation: "move", fileContent: "x" },
+          { fileName: "d.ts", operation: "delete", fileContent: "x" },
+          { fileName: "e.ts", operation: "rename" },
+          { fileName: "f.ts", fileContent: "x", newFileName: "g.ts" },
+          { fileName: "h.ts", edits: [{ search: "x" }] },
+          { fileName: "i.ts", fileContent: "x", language: "ts" },
+          "j.ts",
+        ],
+      } as any);
+
+      expect(fileSpecs).toEqual([{ fileName: "ok.ts", fileContent: "ok" }]);
+      expect(issues).toEqual([
+        { path: "filesToUpdate[1].fileName", message: "is required" },
+        { path: "filesToUpdate[2].fileContent", message: "must be a string" },
+        {
+          path: "filesToUpdate[3]",
+          message: "needs fileContent, diff or edits",
+        },
+        {
+          path: "filesToUpdate[4].operation",
+          message: "must be one of create, modify, delete, rename",
+        },
+        {
+          path: "filesToUpdate[5]",
+          message: "a deleted file cannot have fileContent, diff or edits",
+        },
+        { path: "filesToUpdate[6].newFileName", message: "is required" },
+        {
+          path: "filesToUpdate[7].newFileName",
+          message: "is only allowed when renaming",
+        },
+        {
+          path: "filesToUpdate[8].edits",
+          message: "edit 1 must have string search and replace properties",
+        },
+        {
+          path: "filesToUpdate[9].language",
+          message: "is not a known property",
+        },
+        { path: "filesToUpdate[10]", message: "must be an object" },
+      ]);
+    });
+
+    it("should reject unsupported schema versions", () => {
+      expect(
+        responseUtils.parseFileChanges({
+          schemaVersion: 2,
+          filesToUpdate: [{ fileName: "a.ts", fileContent: "x" }],
+        })
+      ).toEqual({
+        fileSpecs: [],
+        issues: [
+          {
+            path: "schemaVersion",
+            message: "unsupported version 2, expected 1",
+          },
+        ],
+      });
+    });
+
+    it("should reject a filesToUpdate field that is not an array", () => {
+      expect(
+        responseUtils.parseFileChanges({ filesToUpdate: {} } as any).issues
+      ).toEqual([{ path: "filesToUpdate", message: "must be an array" }]);
+    });
+
+    it("should read file changes from an output that is JSON", () => {
+      const fileSpecs = [{ fileName: "a.ts", fileContent: "x" }];
+
+      expect(
+        responseUtils.parseFileChanges({ output: JSON.stringify(fileSpecs) })
+      ).toEqual({ fileSpecs, issues: [] });
+    });
+
+    it("should read file changes from fenced JSON blocks", () => {
+      const output = [
+        "Here is the change:",
+        "",
+        "```json",
+        '{"schemaVersion": 1, "filesToUpdate": [{"fileName": "a.ts", "fileContent": "x"}]}',
+        "```",
+        "",
+        "And an example of the config:",
+        "",
+        "```json",
+        '{"port": 3000}',
+        "```",
+        "",
+        "```",
+        '[{"fileName": "b.ts", "diff": "@@\\n-a\\n+b"}]',
+        "```",
+      ].join("\n");
+
+      expect(responseUtils.parseFileChanges({ output })).toEqual({
+        fileSpecs: [
+          { fileName: "a.ts", fileContent: "x" },
+          { fileName: "b.ts", diff: "@@\n-a\n+b" },
+        ],
+        issues: [],
+      });
+    });
+
+    it("should report malformed JSON holding file changes", () => {
+      const output =
+        'Done.\n\n```json\n[{"fileName": "a.ts", "fileContent": "x",}]\n```\n\n```json\n{ broken example\n```';
+
+      const { fileSpecs, issues } = responseUtils.parseFileChanges({ output });
+
+      expect(fileSpecs).toEqual([]);
+      expect(issues).toHaveLength(1);
+      expect(issues[0].path).toBe("output block 1");
+      expect(issues[0].message).toMatch(/^is not valid JSON/);
+    });
+
+    it("should find nothing in a plain answer", () => {
+      expect(
+        responseUtils.parseFileChanges({
+          output: "Use `[1, 2]` in ```ts\nconst a = [1];\n```",
+        })
+      ).toEqual({ fileSpecs: [], issues: [] });
+    });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import path from "path";
+import { spawnSync } from "child_process";
+import { reviewUtils } from "../../src/utils/review";
+
+vi.mock("child_process", () => ({
+  spawnSync: vi.fn(),
+}));
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("reviewUtils", () => {
+  describe("editInEditor", () => {
+    beforeEach(() => {
+      vi.mocked(spawnSync).mockImplementation(((
+        _command: string,
+        args: string[]
+      ) => {
+        fs.writeFileSync(args[args.length - 1], "edited\n");
+        return { status: 0 };
+      }) as any);
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+      vi.clearAllMocks();
+    });
+
+    it("should run the editor without a shell on a generated file name", () => {
+      vi.stubEnv("VISUAL", "");
+      vi.stubEnv("EDITOR", 'code --wait --user-data-dir "/tmp/my dir"');
+
+      const content = reviewUtils.editInEditor({
+        fileName: 'src/$(touch pwned)`id`".ts',
+        fileContent: "proposed\n",
+      });
+
+      expect(content).toBe("edited\n");
+      const [command, args, options] = vi.mocked(spawnSync).mock.calls[0] as [
+        string,
+        string[],
+        object
+      ];
+      expect(command).toBe("code");
+      expect(args.slice(0, 3)).toEqual([
+        "--wait",
+        "--user-data-dir",
+        "/tmp/my dir",
+      ]);
+      expect(path.basename(args[3])).toBe("proposed.ts");
+      expect(options).not.toHaveProperty("shell");
+    });
+
+    it("should keep the proposed content when the editor fails", () => {
+      vi.stubEnv("VISUAL", "vim");
+      vi.mocked(spawnSync).mockReturnValue({ status: 1 } as any);
+
+      expect(
+        reviewUtils.editInEditor({
+          fileName: "notes.md",
+          fileContent: "proposed\n",
+        })
+      ).toBe("proposed\n");
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { sessionUtils } from "../../src/utils/session";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("sessionUtils", () => {
+  let repoDir: string;
+  let zhankaiDir: string;
+
+  beforeEach(() => {
+    repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-session-"));
+    zhankaiDir = path.join(repoDir, "zhankai");
+    fs.mkdirSync(zhankaiDir);
+    vi.spyOn(process, "cwd").mockReturnValue(repoDir);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(repoDir, { recursive: true, force: true });
+  });
+
+  it("should start without sessions", async () => {
+    expect(await sessionUtils.listSessions()).toEqual([]);
+    expect(await sessionUtils.getCurrentSessionId()).toBeUndefined();
+  });
+
+  it("should record turns and make the session current", async () => {
+    await sessionUtils.recordTurn(
+      "s1",
+      "first",
+      path.join(zhankaiDir, "query.md")
+    );
+    await sessionUtils.recordTurn(
+      "s1",
+      "second",
+      path.join(zhankaiDir, "query(1).md")
+    );
+
+    const [session] = await sessionUtils.listSessions();
+    expect(session.id).toBe("s1");
+    expect(session.turns.map((t) => t.transcript)).toEqual([
+      "query.md",
+      "query(1).md",
+    ]);
+    expect(await sessionUtils.getCurrentSessionId()).toBe("s1");
+  });
+
+  it("should resume known sessions only", async () => {
+    await sessionUtils.recordTurn("s1", "q", path.join(zhankaiDir, "a.md"));
+    await sessionUtils.recordTurn("s2", "q", path.join(zhankaiDir, "b.md"));
+
+    expect(await sessionUtils.resumeSession("s1")).toBe(true);
+    expect(await sessionUtils.getCurrentSessionId()).toBe("s1");
+    expect(await sessionUtils.resumeSession("unknown")).toBe(false);
+  });
+
+  it("should delete a session with its transcripts", async () => {
+    const transcript = path.join(zhankaiDir, "query.md");
+    fs.writeFileSync(transcript, "answer");
+    await sessionUtils.recordTurn("s1", "q", transcript);
+
+    expect(await sessionUtils.deleteSession("s1")).toBe(true);
+    expect(fs.existsSync(transcript)).toBe(false);
+    expect(await sessionUtils.listSessions()).toEqual([]);
+    expect(await sessionUtils.getCurrentSessionId()).toBeUndefined();
+  });
+});
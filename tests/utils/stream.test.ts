@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { streamUtils } from "../../src/utils/stream";
+
+/**
+ * Creates a response whose body arrives in the given chunks
+ */
+const streamResponse = (
+  chunks: string[],
+  contentType: string = "text/event-stream"
+) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+
+  return new Response(body, { headers: { "content-type": contentType } });
+};
+
+describe("streamUtils", () => {
+  describe("readEvents", () => {
+    it("should read events cut across chunks", async () => {
+      const response = streamResponse([
+        ": keep-alive\n\nevent: delta\nda",
+        "ta: one\r\ndata: two\r\n\r\ndata: {}\n",
+      ]);
+      const onEvent = vi.fn();
+
+      expect(streamUtils.isEventStream(response)).toBe(true);
+      await streamUtils.readEvents(response, onEvent);
+
+      expect(onEvent.mock.calls.map(([event]) => event)).toEqual([
+        { event: "delta", data: "one\ntwo" },
+        { event: "message", data: "{}" },
+      ]);
+    });
+
+    it("should stop reading when a handler fails", async () => {
+      const response = streamResponse(["data: 1\n\n", "data: 2\n\n"]);
+      const onEvent = vi.fn(() => {
+        throw new Error("bad event");
+      });
+
+      await expect(streamUtils.readEvents(response, onEvent)).rejects.toThrow(
+        "bad event"
+      );
+      expect(onEvent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("readLines", () => {
+    it("should read the non-empty lines", async () => {
+      const response = streamResponse(
+        ['{"a":1}\n\n{"b"', ":2}"],
+        "application/x-ndjson"
+      );
+      const onLine = vi.fn();
+
+      expect(streamUtils.isEventStream(response)).toBe(false);
+      await streamUtils.readLines(response, onLine);
+
+      expect(onLine.mock.calls).toEqual([['{"a":1}'], ['{"b":2}']]);
+    });
+  });
+
+  describe("handleInterrupt", () => {
+    it("should cancel on Ctrl+C until it is stopped", () => {
+      const listeners = process.listenerCount("SIGINT");
+      const onCancel = vi.fn();
+
+      streamUtils.handleInterrupt(onCancel);
+      process.emit("SIGINT");
+
+      expect(streamUtils.isCancelled(onCancel.mock.calls[0][0])).toBe(true);
+      expect(streamUtils.isCancelled(new Error("timeout"))).toBe(false);
+
+      const stopHandlingInterrupt = streamUtils.handleInterrupt(onCancel);
+      stopHandlingInterrupt();
+
+      expect(process.listenerCount("SIGINT")).toBe(listeners);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from "vitest";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execSync } from "child_process";
+import { tokenUtils } from "../../src/utils/tokens";
+import { FileTokenStats } from "../../src/utils/types";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const stat = (
+  path: string,
+  tokens: number,
+  overrides: Partial<FileTokenStats> = {}
+): FileTokenStats => ({
+  path,
+  lines: tokens / 10,
+  tokens,
+  omittedTokens: 15,
+  contentTokens: tokens - 10,
+  relevance: 0,
+  modifiedAt: 0,
+  ...overrides,
+});
+
+describe("tokenUtils", () => {
+  describe("estimateTokens", () => {
+    it("should estimate about four characters per token", () => {
+      expect(tokenUtils.estimateTokens("")).toBe(0);
+      expect(tokenUtils.estimateTokens("abcd")).toBe(1);
+      expect(tokenUtils.estimateTokens("abcde")).toBe(2);
+    });
+  });
+
+  describe("scoreRelevance", () => {
+    it("should favor keywords in the path over the content", () => {
+      const keywords = tokenUtils.getKeywords("Fix the wallet signing");
+
+      expect(keywords).toEqual(["wallet", "signing"]);
+      expect(
+        tokenUtils.scoreRelevance("src/utils/wallet.ts", "", keywords)
+      ).toBeGreaterThan(
+        tokenUtils.scoreRelevance("src/index.ts", "wallet wallet", keywords)
+      );
+    });
+  });
+
+  describe("planBudget", () => {
+    const stats = [
+      stat("big.ts", 1000, { relevance: 1, modifiedAt: 3 }),
+      stat("small.ts", 100, { relevance: 0, modifiedAt: 1 }),
+      stat("medium.ts", 500, { relevance: 5, modifiedAt: 2 }),
+    ];
+
+    it("should include every file within the budget", () => {
+      const plan = tokenUtils.planBudget(stats, 10000, "size");
+
+      expect(plan.usedTokens).toBe(1600);
+      expect(plan.truncated).toEqual([]);
+      expect(plan.omitted).toEqual([]);
+    });
+
+    it("should give the budget to the smallest files first", () => {
+      const plan = tokenUtils.planBudget(stats, 700, "size");
+
+      expect(plan.decisions["small.ts"]).toEqual({ action: "include" });
+      expect(plan.decisions["medium.ts"]).toEqual({ action: "include" });
+      expect(plan.decisions["big.ts"]).toEqual({ action: "omit" });
+    });
+
+    it("should give the budget to the most relevant files first", () => {
+      const plan = tokenUtils.planBudget(stats, 1200, "relevance");
+
+      expect(plan.decisions["medium.ts"]).toEqual({ action: "include" });
+      expect(plan.decisions["big.ts"]).toEqual({
+        action: "truncate",
+        maxLines: 65,
+      });
+      expect(plan.decisions["small.ts"]).toEqual({ action: "omit" });
+      expect(plan.usedTokens).toBeLessThanOrEqual(1200);
+    });
+
+    it("should give the budget to the most recent files first", () => {
+      const plan = tokenUtils.planBudget(stats, 1030, "recent");
+
+      expect(plan.decisions["big.ts"]).toEqual({ action: "include" });
+      expect(plan.omitted).toEqual(["medium.ts", "small.ts"]);
+    });
+
+    it("should count reserved tokens", () => {
+      const plan = tokenUtils.planBudget(stats, 730, "size", 600);
+
+      expect(plan.decisions["small.ts"]).toEqual({ action: "include" });
+      expect(plan.omitted).toEqual(["medium.ts", "big.ts"]);
+    });
+  });
+
+  describe("getFileStats", () => {
+    it("should date committed files by their last commit, not their mtime", async () => {
+      const repoDir = fs.mkdtempSync(path.join(os.tmpdir(), "zhankai-tokens-"));
+      const commit = (file: string, date: string) => {
+        fs.writeFileSync(path.join(repoDir, file), `${file}\n`);
+        execSync(`git add ${file} && git commit -q -m ${file}`, {
+          cwd: repoDir,
+          env: {
+            ...process.env,
+            GIT_AUTHOR_DATE: date,
+            GIT_COMMITTER_DATE: date,
+          },
+        });
+      };
+
+      try {
+        execSync(
+          "git init -q -b main && git config user.email test@example.com && git config user.name test",
+          { cwd: repoDir }
+        );
+        commit("old.ts", "2020-01-01T00:00:00Z");
+        commit("new.ts", "2021-01-01T00:00:00Z");
+        // A fresh checkout touches files in any order
+        fs.utimesSync(path.join(repoDir, "new.ts"), 0, 0);
+        fs.writeFileSync(path.join(repoDir, "draft.ts"), "draft\n");
+
+        const stats = await tokenUtils.getFileStats(repoDir, [
+          "old.ts",
+          "new.ts",
+          "draft.ts",
+        ]);
+
+        expect(
+          Object.fromEntries(stats.map((s) => [s.path, s.modifiedAt]))
+        ).toMatchObject({
+          "old.ts": Date.parse("2020-01-01T00:00:00Z"),
+          "new.ts": Date.parse("2021-01-01T00:00:00Z"),
+        });
+        expect(
+          tokenUtils.sortByPriority(stats, "recent").map((s) => s.path)
+        ).toEqual(["draft.ts", "new.ts", "old.ts"]);
+      } finally {
+        fs.rmSync(repoDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("createStatsTable", () => {
+    it("should list files by size with a total row", () => {
+      const table = tokenUtils.createStatsTable([
+        stat("a.ts", 100),
+        stat("b.ts", 300),
+      ]);
+
+      expect(table.split("\n")).toEqual([
+        "| File | Lines | Tokens | Share |",
+        "| --- | --- | --- | --- |",
+        "| b.ts | 30 | 300 | 75.0% |",
+        "| a.ts | 10 | 100 | 25.0% |",
+        "| **Total (2 files)** | 40 | 400 | 100% |",
+        "",
+      ]);
+    });
+
+    it("should add the budget decisions", () => {
+      const stats = [stat("a.ts", 100), stat("b.ts", 300)];
+      const plan = tokenUtils.planBudget(stats, 150, "size");
+
+      const table = tokenUtils.createStatsTable(stats, plan);
+
+      expect(table).toContain("| b.ts | 30 | 300 | 75.0% | omit |");
+      expect(table).toContain("| a.ts | 10 | 100 | 25.0% | include |");
+      expect(table).toContain("~115 of 150");
+    });
+  });
+});
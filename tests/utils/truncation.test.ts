@@ -0,0 +1,199 @@
+import { describe, it, expect } from "vitest";
+import { truncationUtils } from "../../src/utils/truncation";
+
+describe("truncationUtils", () => {
+  const numbered = (count: number) =>
+    Array.from({ length: count }, (_, index) => `line ${index + 1}`);
+
+  describe("getStrategyName", () => {
+    it("should use the last matching pattern", () => {
+      const rules = {
+        "*": "head-tail",
+        "src/**/*.ts": "outline",
+        "*.test.ts": "relevance",
+      };
+
+      expect(truncationUtils.getStrategyName("README.md", rules)).toBe(
+        "head-tail"
+      );
+      expect(truncationUtils.getStrategyName("src/utils/api.ts", rules)).toBe(
+        "outline"
+      );
+      expect(truncationUtils.getStrategyName("src/api.test.ts", rules)).toBe(
+        "relevance"
+      );
+    });
+
+    it("should default to head and reject unknown strategies", () => {
+      expect(truncationUtils.getStrategyName("src/index.ts")).toBe("head");
+      expect(() =>
+        truncationUtils.getStrategyName("src/index.ts", { "*": "middle" })
+      ).toThrow('Unknown truncation strategy "middle"');
+    });
+  });
+
+  describe("parseRule", () => {
+    it("should apply rules without a glob to all files", () => {
+      expect(truncationUtils.parseRule("outline")).toEqual(["*", "outline"]);
+      expect(truncationUtils.parseRule("src/**/*.py=relevance")).toEqual([
+        "src/**/*.py",
+        "relevance",
+      ]);
+    });
+  });
+
+  describe("truncate", () => {
+    const context = { relativePath: "notes.txt", maxLines: 5, keywords: [] };
+
+    it("should keep the first and last lines", () => {
+      expect(
+        truncationUtils.truncate(numbered(20), context, "head-tail")
+      ).toEqual({
+        lines: [
+          "line 1",
+          "line 2",
+          "... 16 lines omitted ...",
+          "line 19",
+          "line 20",
+        ],
+        description: "the first and last lines",
+      });
+    });
+
+    it("should keep exported symbols and whole signatures", () => {
+      const source = [
+        'import fs from "fs";',
+        "",
+        "export const fileUtils = {",
+        "  async readFile(",
+        "    filePath: string,",
+        "    encoding: string",
+        "  ): Promise<string> {",
+        "    if (!filePath) {",
+        '      throw new Error("No path");',
+        "    }",
+        "    return fs.readFile(filePath, encoding);",
+        "  },",
+        "};",
+        "",
+        "function helper(value: number): number {",
+        "  return value * 2;",
+        "}",
+      ];
+
+      const { lines, description } = truncationUtils.truncate(
+        source,
+        { ...context, relativePath: "src/file.ts", maxLines: 20 },
+        "outline"
+      );
+
+      expect(description).toBe("the outline");
+      expect(lines).toEqual([
+        "... 2 lines omitted ...",
+        "export const fileUtils = {",
+        "  async readFile(",
+        "    filePath: string,",
+        "    encoding: string",
+        "  ): Promise<string> {",
+        "... 7 lines omitted ...",
+        "function helper(value: number): number {",
+        "... 2 lines omitted ...",
+      ]);
+    });
+
+    it("should keep functions bound to top-level consts", () => {
+      const { lines } = truncationUtils.truncate(
+        [
+          "const LIMIT = 10;",
+          "const split = (content: string): string[] =>",
+          '  content.split("\\n");',
+          "const find = async <T>(",
+          "  items: T[]",
+          "): Promise<T> => {",
+          "  return items[0];",
+          "};",
+          "let check = function (value: number) {",
+          "  return value > LIMIT;",
+          "};",
+          "const double = value => value * 2;",
+        ],
+        { ...context, relativePath: "patch.ts", maxLines: 20 },
+        "outline"
+      );
+
+      expect(lines).toEqual([
+        "... 1 line omitted ...",
+        "const split = (content: string): string[] =>",
+        "... 1 line omitted ...",
+        "const find = async <T>(",
+        "  items: T[]",
+        "): Promise<T> => {",
+        "... 2 lines omitted ...",
+        "let check = function (value: number) {",
+        "... 2 lines omitted ...",
+        "const double = value => value * 2;",
+      ]);
+    });
+
+    it("should outline Python and Go sources", () => {
+      const python = truncationUtils.truncate(
+        [
+          "import os",
+          "",
+          "class Repo:",
+          "    def export(self):",
+          "        pass",
+        ],
+        { ...context, relativePath: "repo.py" },
+        "outline"
+      );
+      const go = truncationUtils.truncate(
+        ["package main", "", "func main() {", "\tprintln()", "}"],
+        { ...context, relativePath: "main.go" },
+        "outline"
+      );
+
+      expect(python.lines).toEqual([
+        "... 2 lines omitted ...",
+        "class Repo:",
+        "    def export(self):",
+        "... 1 line omitted ...",
+      ]);
+      expect(go.lines).toEqual([
+        "package main",
+        "... 1 line omitted ...",
+        "func main() {",
+        "... 2 lines omitted ...",
+      ]);
+    });
+
+    it("should keep windows around lines matching the query", () => {
+      const lines = numbered(40);
+      lines[19] = "const wallet = signMessage();";
+
+      const result = truncationUtils.truncate(
+        lines,
+        { ...context, maxLines: 10, keywords: ["wallet"] },
+        "relevance"
+      );
+
+      expect(result).toEqual({
+        lines: [
+          "... 16 lines omitted ...",
+          ...lines.slice(16, 23),
+          "... 17 lines omitted ...",
+        ],
+        description: "the lines around matches of the query",
+      });
+    });
+
+    it("should fall back to the first lines when a strategy does not apply", () => {
+      expect(
+        truncationUtils.truncate(numbered(20), context, "relevance")
+      ).toEqual({ lines: numbered(5) });
+      expect(
+        truncationUtils.truncate(numbered(20), context, "outline")
+      ).toEqual({ lines: numbered(5) });
+    });
+  });
+});
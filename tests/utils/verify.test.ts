@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from "vitest";
+import { verifyUtils } from "../../src/utils/verify";
+
+vi.mock("../../src/ui/logger", () => ({
+  logger: {
+    error: vi.fn(),
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe("verifyUtils", () => {
+  describe("runChecks", () => {
+    it("should run every check and capture the output of failures", async () => {
+      const results = await verifyUtils.runChecks([
+        `node -e "console.error('boom'); process.exit(2)"`,
+        `node -e "console.log('ok')"`,
+      ]);
+
+      expect(results).toMatchObject([
+        { passed: false, exitCode: 2, output: "boom\n" },
+        { passed: true, exitCode: 0, output: "ok\n" },
+      ]);
+      expect(results[0].durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it("should fail on unknown commands", async () => {
+      const [result] = await verifyUtils.runChecks(["zhankai-no-such-command"]);
+
+      expect(result.passed).toBe(false);
+      expect(result.output).toContain("not found");
+    });
+  });
+
+  describe("createRepairQuery", () => {
+    it("should send the end of the output of failed checks only", () => {
+      const query = verifyUtils.createRepairQuery([
+        {
+          command: "tsc --noEmit",
+          passed: false,
+          exitCode: 1,
+          output: Array.from({ length: 100 }, (_, i) => `error ${i}`).join(
+            "\n"
+          ),
+          durationMs: 10,
+        },
+        {
+          command: "vitest run",
+          passed: true,
+          exitCode: 0,
+          output: "all good",
+          durationMs: 10,
+        },
+      ]);
+
+      expect(query).toContain("### `tsc --noEmit` (exit code 1)");
+      expect(query).toContain("... 20 lines omitted ...\nerror 20\n");
+      expect(query).toContain("error 99\n```");
+      expect(query).not.toContain("error 19\n");
+      expect(query).not.toContain("vitest run");
+    });
+
+    it("should add the current content of the changed files", () => {
+      const query = verifyUtils.createRepairQuery(
+        [
+          {
+            command: "tsc --noEmit",
+            passed: false,
+            exitCode: 2,
+            output: "error TS2322",
+            durationMs: 10,
+          },
+        ],
+        [{ fileName: "src/a.ts", content: "const a = 1;\n" }]
+      );
+
+      expect(query).toContain("The attached export predates the changes");
+      expect(query).toContain("### `src/a.ts`\n\n```\nconst a = 1;\n```");
+    });
+  });
+});
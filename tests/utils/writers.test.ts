@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { writerUtils } from "../../src/utils/writers";
+import { ExportedFile, ExportWriter } from "../../src/utils/types";
+
+/**
+ * Runs a writer over a small export and returns its output
+ */
+const render = async (writer: ExportWriter, files: ExportedFile[]) => {
+  let output = "";
+  const append = async (content: string) => {
+    output += content;
+  };
+
+  await writer.writeHeader("repo", append);
+  await writer.writeDirectory("src", append);
+  for (const file of files) {
+    await writer.writeFile(file, append);
+  }
+  await writer.writeFooter(
+    { structure: "└── src\n    └── a.ts\n", changes: "+x\n" },
+    append
+  );
+
+  return output;
+};
+
+const files: ExportedFile[] = [
+  {
+    fileName: "src/a.ts",
+    fileContent: "if (a < b) {}",
+    language: "typescript",
+  },
+  {
+    fileName: "src/b.ts",
+    fileContent: "",
+    language: "typescript",
+    omitted: true,
+    note: "This file was omitted to fit the token budget",
+  },
+];
+
+describe("writerUtils", () => {
+  it("should reject unknown formats", () => {
+    expect(writerUtils.listFormats()).toEqual(["markdown", "json", "xml"]);
+    expect(() => writerUtils.createWriter("yaml")).toThrow(
+      'Unknown format "yaml"'
+    );
+  });
+
+  it("should write markdown sections", async () => {
+    const output = await render(writerUtils.createWriter(), files);
+
+    expect(output).toContain(
+      "# repo\n\n\n## src\n\n\n### src/a.ts\n\n```typescript\nif (a < b) {}\n```\n"
+    );
+    expect(output).toContain(
+      "\n### src/b.ts\n\n[This file was omitted to fit the token budget]\n"
+    );
+    expect(output).toContain("\n## Changes\n\n```diff\n+x\n```\n");
+    expect(output).toContain("\n## Structure\n\n```\n└── src\n");
+    expect(output).toMatch(/\nTimestamp: .+ UTC$/);
+  });
+
+  it("should write a JSON object of FileContent entries", async () => {
+    const writer = writerUtils.createWriter("json");
+    const output = JSON.parse(await render(writer, files));
+
+    expect(writer.extension).toBe(".json");
+    expect(output.repo).toBe("repo");
+    expect(output.files).toEqual([
+      { fileName: "src/a.ts", fileContent: "if (a < b) {}" },
+      {
+        fileName: "src/b.ts",
+        fileContent: "",
+        note: "This file was omitted to fit the token budget",
+      },
+    ]);
+    expect(output.structure).toBe("└── src\n    └── a.ts\n");
+    expect(output.changes).toBe("+x\n");
+    expect(new Date(output.timestamp).getTime()).not.toBeNaN();
+  });
+
+  it("should write valid JSON without files", async () => {
+    const output = JSON.parse(
+      await render(writerUtils.createWriter("json"), [])
+    );
+
+    expect(output.files).toEqual([]);
+  });
+
+  it("should write escaped XML document blocks", async () => {
+    const output = await render(writerUtils.createWriter("xml"), files);
+
+    expect(output).toContain(
+      '<documents repo="repo">\n<document index="1">\n<source>src/a.ts</source>\n<document_content>\nif (a &lt; b) {}\n</document_content>\n</document>\n'
+    );
+    expect(output).toContain(
+      '<document index="2">\n<source>src/b.ts</source>\n<note>This file was omitted to fit the token budget</note>\n</document>\n'
+    );
+    expect(output).toContain("<changes>\n+x\n</changes>\n");
+    expect(output.trim().endsWith("</documents>")).toBe(true);
+  });
+});